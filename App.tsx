@@ -1,13 +1,34 @@
 
 import React, { useState, useEffect, useMemo, useRef, useTransition } from 'react';
-import { EnergyReading, Tariff, ComparisonResult, TimePeriod, SimulatedLoad, GasReading, GasComparisonResult, ProviderType } from './types';
-import { DEFAULT_TARIFFS, LOAD_PRESETS, DEFAULT_GAS_TARIFF, SOCALGAS_TARIFF, detectUtilityFromCoords } from './constants';
+import { EnergyReading, Tariff, ComparisonResult, TimePeriod, SimulatedLoad, GasReading, GasComparisonResult, ProviderType, CustomerProfile, IncomeTier, DailyTemperature, WeatherModel } from './types';
+import { DEFAULT_TARIFFS, LOAD_PRESETS, DEFAULT_GAS_TARIFF, SOCALGAS_TARIFF, PROVIDER_TIME_ZONES, PROVIDER_CLIMATE_CREDITS, INCOME_TIER_LABELS, detectUtilityFromCoords } from './constants';
 import EnergyChart from './components/EnergyChart';
 import { analyzeUsageWithClaude } from './services/claudeService';
-import { compareTariffs, calculateDetailedCost, calculateMonthlyDeliveryCost, calculateMonthlyGrossConsumption } from './services/energyCalculator';
-import { parsePgeIntervalCsv } from './services/pgeCsvParser';
-import { parsePgeGasCsv } from './services/pgeGasCsvParser';
+import { compareTariffs, calculateDetailedCost } from './services/energyCalculator';
+import { parseIntervalCsv, providerForFormat } from './services/intervalCsvParser';
+import { medianIntervalMs } from './services/csvUtils';
+import { parseGreenButtonGasXml, parseGreenButtonXml } from './services/greenButtonXmlParser';
+import { IntervalSourceFile, MergedSourceSummary, mergeIntervalFiles } from './services/intervalMerger';
+import { ImputationMethod, analyzeDataQuality, imputeReadings } from './services/dataQuality';
+import { parseGasCsv } from './services/gasCsvParser';
 import { calculateGasComparison, calculateGasSavingsFromElectrification } from './services/gasCalculator';
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts, startOfZonedDay, zonedDayKey, zonedMonthKey, zonedTimeToDate } from './services/timeZone';
+import { accumulateReading, addLoadToReading, getImportKwh } from './services/readingChannels';
+import { DEFAULT_EXPORT_RATE_TABLE, calculateNetBilling } from './services/netBillingCalculator';
+import { NEM_MIN_DELIVERY, NEM_NSC_RATE, calculateNemTrueUp } from './services/nemCalculator';
+import { getBaselineTable, resolveBaselineTerritory } from './services/baselineAllowances';
+import { buildBillingCycles, createBillingPeriodResolver } from './services/billingCycles';
+import { getDiscountProgram, getGasDiscountRate } from './services/discountPrograms';
+import { DEFAULT_TAX_TABLE, calculateTaxLines, getTaxCities, getTaxItems, loadTaxTable } from './services/billTaxes';
+import { getPciaRate } from './services/tariffComposition';
+import { getGasBaselineAllowance, getGasBaselineTable, resolveGasBaselineTerritory } from './services/gasBaselines';
+import { getGasRates, loadGasRateSeries, withGasRateHistory } from './services/gasRateHistory';
+import { TemperatureUnit, parseWeatherCsv } from './services/weatherCsvParser';
+import { calculateConversionGasSavings, convertGasToElectric, getConvertedHourlyKwh } from './services/gasConversion';
+import { calculateDegreeDays, fitElectricWeatherModel, fitGasWeatherModel, normalizeEnergyReadings, normalizeGasReadings } from './services/weatherNormalization';
+
+// Segment colors for the per-period / per-tier stacked bar in the Rate Options cards
+const SUBTOTAL_COLORS = ['bg-rose-500', 'bg-amber-500', 'bg-blue-500', 'bg-indigo-400', 'bg-emerald-500', 'bg-violet-500'];
 
 const App: React.FC = () => {
   const [readings, setReadings] = useState<EnergyReading[]>([]);
@@ -29,6 +50,32 @@ const App: React.FC = () => {
   const [nemEnabled, setNemEnabled] = useState<boolean>(
     () => localStorage.getItem('vc_nem') === 'true'
   );
+  // True-up anniversary month (1-12); null = first month of data
+  const [nemAnniversaryMonth, setNemAnniversaryMonth] = useState<number | null>(() => {
+    const stored = Number(localStorage.getItem('vc_nem_anniversary'));
+    return stored >= 1 && stored <= 12 ? stored : null;
+  });
+  // Baseline territory for tiered rates (e.g. PG&E "X"); null = the utility's default territory
+  const [baselineTerritory, setBaselineTerritory] = useState<string | null>(
+    () => localStorage.getItem('vc_baseline_territory')
+  );
+  const [allElectric, setAllElectric] = useState<boolean>(
+    () => localStorage.getItem('vc_all_electric') === 'true'
+  );
+  // Income tier for the income-graduated fixed charge (CARE/FERA enrollment)
+  const [incomeTier, setIncomeTier] = useState<IncomeTier>(() => {
+    const stored = localStorage.getItem('vc_income_tier');
+    return stored != null && Object.keys(INCOME_TIER_LABELS).includes(stored) ? stored as IncomeTier : 'standard';
+  });
+  const [medicalBaseline, setMedicalBaseline] = useState<boolean>(
+    () => localStorage.getItem('vc_medical_baseline') === 'true'
+  );
+  // Gas baseline zone where it isn't the electric territory (SoCalGas); null = the default zone
+  const [gasClimateZone, setGasClimateZone] = useState<string | null>(() => localStorage.getItem('vc_gas_climate_zone'));
+  // PCIA vintage year for CCA tariffs; null = the program's default vintage
+  const [pciaVintage, setPciaVintage] = useState<string | null>(() => localStorage.getItem('vc_pcia_vintage'));
+  // City for utility users tax and franchise fee line items; null = unincorporated / none
+  const [taxCity, setTaxCity] = useState<string | null>(() => localStorage.getItem('vc_tax_city'));
   const [showRefinements, setShowRefinements] = useState<boolean>(false);
   const [location, setLocation] = useState<string>('San Francisco Bay Area');
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('month');
@@ -43,6 +90,12 @@ const App: React.FC = () => {
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [uploadWarnings, setUploadWarnings] = useState<string[]>([]);
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  const [uploadSources, setUploadSources] = useState<IntervalSourceFile[]>([]);
+  const [mergedSources, setMergedSources] = useState<MergedSourceSummary[]>([]);
+  const [dataTimeZone, setDataTimeZone] = useState<string | null>(null);
+  const [imputationMethod, setImputationMethod] = useState<ImputationMethod>(
+    () => (localStorage.getItem('vc_imputation') as ImputationMethod | null) ?? 'none'
+  );
   const [simulatedLoads, setSimulatedLoads] = useState<SimulatedLoad[]>([]);
   const [showSimPanel, setShowSimPanel] = useState(false);
   const isDrillingDown = useRef(false);
@@ -57,6 +110,46 @@ const App: React.FC = () => {
   const [gasUploadWarnings, setGasUploadWarnings] = useState<string[]>([]);
   const [gasUploadedFileName, setGasUploadedFileName] = useState<string | null>(null);
   const [isLoadingGas, setIsLoadingGas] = useState(false);
+  // User-supplied monthly gas rates CSV (text kept so it survives reloads); null = bundled rates
+  const [gasRatesCsv, setGasRatesCsv] = useState<string | null>(() => localStorage.getItem('vc_gas_rates'));
+  const [gasRatesError, setGasRatesError] = useState<string | null>(null);
+  // User-edited tax table JSON (text kept so it survives reloads); null = bundled table
+  const [taxTableJson, setTaxTableJson] = useState<string | null>(() => localStorage.getItem('vc_tax_table'));
+  const [taxTableError, setTaxTableError] = useState<string | null>(null);
+  // Daily temperatures for weather normalization (not persisted — station files are large)
+  const [temperatures, setTemperatures] = useState<DailyTemperature[]>([]);
+  const [weatherFileName, setWeatherFileName] = useState<string | null>(null);
+  const [weatherError, setWeatherError] = useState<string | null>(null);
+  const [weatherWarnings, setWeatherWarnings] = useState<string[]>([]);
+  const [weatherUnit, setWeatherUnit] = useState<TemperatureUnit>('F');
+  const [weatherNormalize, setWeatherNormalize] = useState<boolean>(
+    () => localStorage.getItem('vc_weather_normalize') === 'true'
+  );
+  const gasRateSeries = useMemo(() => {
+    if (!gasRatesCsv) return null;
+    try {
+      return loadGasRateSeries(gasRatesCsv);
+    } catch {
+      return null;
+    }
+  }, [gasRatesCsv]);
+  const taxTable = useMemo(() => {
+    if (!taxTableJson) return DEFAULT_TAX_TABLE;
+    try {
+      return loadTaxTable(JSON.parse(taxTableJson));
+    } catch {
+      return DEFAULT_TAX_TABLE;
+    }
+  }, [taxTableJson]);
+
+  const customerProfile = useMemo<CustomerProfile>(
+    () => ({ baselineTerritory: baselineTerritory ?? undefined, allElectric, incomeTier, medicalBaseline, pciaVintage: pciaVintage ?? undefined, gasClimateZone: gasClimateZone ?? undefined }),
+    [baselineTerritory, allElectric, incomeTier, medicalBaseline, pciaVintage, gasClimateZone]
+  );
+
+  // Utility zone for all hour/day/month bucketing — from the uploaded data, else the selected provider
+  const providerTimeZone = provider ? PROVIDER_TIME_ZONES[provider] : DEFAULT_UTILITY_TIME_ZONE;
+  const utilityTimeZone = dataTimeZone ?? providerTimeZone;
 
   useEffect(() => {
     if (navigator.geolocation) {
@@ -73,44 +166,141 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const readFileText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(String(e.target?.result ?? ''));
+    reader.onerror = () => reject(new Error('Failed to read the file in your browser. Please try again.'));
+    reader.readAsText(file);
+  });
 
-    setUploadedFileName(file.name);
+  const parseIntervalFile = async (file: File): Promise<IntervalSourceFile> => {
+    const text = await readFileText(file);
+    const lower = file.name.toLowerCase();
+    if (!lower.endsWith('.csv') && !lower.endsWith('.xml')) {
+      throw new Error('Unsupported file type. Please upload a .csv or .xml export of your Green Button interval data.');
+    }
+    const result = lower.endsWith('.xml')
+      ? parseGreenButtonXml(text, providerTimeZone)
+      : parseIntervalCsv(text, providerTimeZone);
+    return { fileName: file.name, lastModified: file.lastModified, result };
+  };
+
+  // append = add files to the current dataset instead of replacing it
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, append = false) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = ''; // allow re-selecting the same file
+    if (files.length === 0) return;
+
+    setUploadedFileName(files.map(f => f.name).join(', '));
     setUploadError(null);
-    setUploadWarnings([]);
+    if (!append) setUploadWarnings([]);
 
     setIsLoading(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
+    const parsed: IntervalSourceFile[] = [];
+    const fileErrors: string[] = [];
+    for (const file of files) {
       try {
-        const text = String(e.target?.result ?? '');
-        const lower = file.name.toLowerCase();
-        if (lower.endsWith('.xml')) {
-          throw new Error('XML upload is not supported yet. Please export your Green Button interval data as a CSV and upload that file.');
-        }
-        if (!lower.endsWith('.csv')) {
-          throw new Error('Unsupported file type. Please upload a .csv export of your Green Button interval data.');
-        }
-
-        const result = parsePgeIntervalCsv(text);
-        setReadings(result.readings);
-        setUploadWarnings(result.warnings);
-        setChunkIndex(0);
+        parsed.push(await parseIntervalFile(file));
       } catch (err: any) {
+        const message = err?.message ? String(err.message) : 'Failed to parse the uploaded file.';
+        fileErrors.push(files.length > 1 || append ? `${file.name}: ${message}` : message);
+      }
+    }
+
+    try {
+      if (parsed.length === 0) {
+        throw new Error(fileErrors.join(' '));
+      }
+
+      const allSources = append ? [...uploadSources, ...parsed] : parsed;
+      const merged = mergeIntervalFiles(allSources);
+      const warnings = [
+        ...fileErrors.map(e => `Skipped ${e}`),
+        ...merged.warnings,
+        ...allSources.flatMap(src => src.result.warnings.map(w => allSources.length > 1 ? `${src.fileName}: ${w}` : w))
+      ];
+
+      // Pre-select the utility whose export layout matched
+      const detectedProvider = providerForFormat(parsed.find(p => p.result.format)?.result.format, provider);
+      if (detectedProvider && detectedProvider !== provider) {
+        const names: Record<ProviderType, string> = { 'pge-bundled': 'PG&E', 'mce-pge': 'MCE', 'sce-bundled': 'SCE', 'sdge-bundled': 'SDG&E' };
+        warnings.unshift(`Detected a ${names[detectedProvider]} export. Switched rate options to ${names[detectedProvider]}.`);
+        pickProvider(detectedProvider);
+      }
+
+      setUploadSources(allSources);
+      setMergedSources(merged.sources);
+      setDataTimeZone(merged.timeZone);
+      setReadings(merged.readings);
+      setUploadWarnings(warnings);
+      setChunkIndex(0);
+    } catch (err: any) {
+      if (append) {
+        setUploadWarnings(prev => [...prev, `Could not add file(s): ${err?.message ? String(err.message) : 'Failed to parse the uploaded file.'}`]);
+      } else {
         setReadings([]);
+        setUploadSources([]);
+        setMergedSources([]);
+        setDataTimeZone(null);
         setUploadWarnings([]);
         setUploadError(err?.message ? String(err.message) : 'Failed to parse the uploaded file.');
-      } finally {
-        setIsLoading(false);
       }
-    };
-    reader.onerror = () => {
+    } finally {
       setIsLoading(false);
-      setUploadError('Failed to read the file in your browser. Please try again.');
-    };
-    reader.readAsText(file);
+    }
+  };
+
+  // Monthly gas rates CSV: replaces the bundled series for the tariffs it covers
+  const handleGasRatesUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        loadGasRateSeries(text);
+        localStorage.setItem('vc_gas_rates', text);
+        setGasRatesCsv(text);
+        setGasRatesError(null);
+      } catch (err: any) {
+        setGasRatesError(err?.message ? String(err.message) : 'Failed to parse the gas rate file.');
+      }
+    }, () => setGasRatesError('Failed to read the gas rate file. Please try again.'));
+  };
+
+  // Tax table JSON in the bundled layout: replaces the bundled taxes and fees
+  const handleTaxTableUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        loadTaxTable(JSON.parse(text));
+        localStorage.setItem('vc_tax_table', text);
+        setTaxTableJson(text);
+        setTaxTableError(null);
+      } catch (err: any) {
+        setTaxTableError(err instanceof SyntaxError ? 'The tax table is not valid JSON.' : (err?.message ? String(err.message) : 'Failed to load the tax table.'));
+      }
+    }, () => setTaxTableError('Failed to read the tax table file. Please try again.'));
+  };
+
+  const handleWeatherUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const result = parseWeatherCsv(text, weatherUnit);
+        setTemperatures(result.temperatures);
+        setWeatherWarnings(result.warnings);
+        setWeatherFileName(result.stationName ?? file.name);
+        setWeatherError(null);
+      } catch (err: any) {
+        setTemperatures([]);
+        setWeatherWarnings([]);
+        setWeatherError(err?.message ? String(err.message) : 'Failed to parse the weather file.');
+      }
+    }, () => setWeatherError('Failed to read the weather file. Please try again.'));
   };
 
   const handleGasFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -127,11 +317,13 @@ const App: React.FC = () => {
       try {
         const text = String(e.target?.result ?? '');
         const lower = file.name.toLowerCase();
-        if (!lower.endsWith('.csv')) {
-          throw new Error('Please upload a .csv export of your PG&E gas interval data.');
+        if (!lower.endsWith('.csv') && !lower.endsWith('.xml')) {
+          throw new Error('Please upload a .csv or .xml export of your PG&E or SoCalGas gas usage data.');
         }
 
-        const result = parsePgeGasCsv(text);
+        const result = lower.endsWith('.xml')
+          ? parseGreenButtonGasXml(text, providerTimeZone)
+          : parseGasCsv(text, providerTimeZone);
         setGasReadings(result.readings);
         setGasUploadWarnings(result.warnings);
       } catch (err: any) {
@@ -150,7 +342,10 @@ const App: React.FC = () => {
   };
 
   // Use SoCalGas tariff for SCE/SDG&E territory, PG&E gas otherwise
-  const activeGasTariff = (provider === 'sce-bundled' || provider === 'sdge-bundled') ? SOCALGAS_TARIFF : DEFAULT_GAS_TARIFF;
+  const activeGasTariff = useMemo(() => {
+    const tariff = (provider === 'sce-bundled' || provider === 'sdge-bundled') ? SOCALGAS_TARIFF : DEFAULT_GAS_TARIFF;
+    return gasRateSeries ? withGasRateHistory(tariff, gasRateSeries) : tariff;
+  }, [provider, gasRateSeries]);
 
   // Auto-expand refinements panel when any refinement data is active
   useEffect(() => {
@@ -159,15 +354,6 @@ const App: React.FC = () => {
     }
   }, [gasReadings.length, nemEnabled, customBillingDates.length]);
 
-  // Calculate gas comparison when gas readings or territory changes
-  useEffect(() => {
-    if (gasReadings.length > 0) {
-      setGasComparison(calculateGasComparison(gasReadings, activeGasTariff));
-    } else {
-      setGasComparison(null);
-    }
-  }, [gasReadings, provider]);
-
   const lookupZip = async () => {
     const z = zipInput.trim();
     if (z.length < 5) return;
@@ -193,16 +379,79 @@ const App: React.FC = () => {
     setProvider(p);
   };
 
+  // Gaps, zero-runs and spikes in the uploaded (merged) data
+  const dataQuality = useMemo(() => readings.length > 0 ? analyzeDataQuality(readings) : null, [readings]);
+
+  // Readings with gaps filled per the selected imputation method (imputed intervals flagged `estimated`)
+  const analyzedReadings = useMemo(() => {
+    if (!dataQuality) return readings;
+    return imputeReadings(readings, dataQuality, imputationMethod, utilityTimeZone);
+  }, [readings, dataQuality, imputationMethod, utilityTimeZone]);
+
+  // Meter-read cycles from the entered billing period end dates; calendar months when none
+  const billingCycles = useMemo(() => {
+    if (customBillingDates.length === 0 || analyzedReadings.length === 0) return undefined;
+    return buildBillingCycles(
+      customBillingDates,
+      zonedDayKey(analyzedReadings[0].timestamp, utilityTimeZone),
+      zonedDayKey(analyzedReadings[analyzedReadings.length - 1].timestamp, utilityTimeZone)
+    );
+  }, [customBillingDates, analyzedReadings, utilityTimeZone]);
+
+  const resolveBillingPeriod = useMemo(
+    () => createBillingPeriodResolver(utilityTimeZone, billingCycles),
+    [utilityTimeZone, billingCycles]
+  );
+
+  // Usage-vs-degree-day fits; null until a temperature file overlaps enough months of usage
+  const degreeDays = useMemo(() => calculateDegreeDays(temperatures), [temperatures]);
+  const electricWeatherModel = useMemo(
+    () => degreeDays.length > 0 && analyzedReadings.length > 0 ? fitElectricWeatherModel(analyzedReadings, degreeDays, utilityTimeZone) : null,
+    [analyzedReadings, degreeDays, utilityTimeZone]
+  );
+  const gasWeatherModel = useMemo(
+    () => degreeDays.length > 0 && gasReadings.length > 0 ? fitGasWeatherModel(gasReadings, degreeDays, utilityTimeZone) : null,
+    [gasReadings, degreeDays, utilityTimeZone]
+  );
+
+  // Readings in normal weather when normalization is on, so comparisons and the simulator see a typical year
+  const baseReadings = useMemo(
+    () => weatherNormalize && electricWeatherModel ? normalizeEnergyReadings(analyzedReadings, electricWeatherModel, utilityTimeZone) : analyzedReadings,
+    [weatherNormalize, electricWeatherModel, analyzedReadings, utilityTimeZone]
+  );
+  const baseGasReadings = useMemo(
+    () => weatherNormalize && gasWeatherModel ? normalizeGasReadings(gasReadings, gasWeatherModel, utilityTimeZone) : gasReadings,
+    [weatherNormalize, gasWeatherModel, gasReadings, utilityTimeZone]
+  );
+
+  // Calculate gas comparison when gas readings or territory changes
+  useEffect(() => {
+    if (baseGasReadings.length > 0) {
+      setGasComparison(calculateGasComparison(baseGasReadings, activeGasTariff, utilityTimeZone, customerProfile, billingCycles));
+    } else {
+      setGasComparison(null);
+    }
+  }, [baseGasReadings, activeGasTariff, utilityTimeZone, customerProfile, billingCycles]);
+
+  // With gas data, loads that take over a gas end use are sized from the household's actual gas use
+  const gasConversion = useMemo(() => {
+    const endUses = simulatedLoads.filter(l => l.enabled && l.gasEndUse).map(l => l.gasEndUse!);
+    if (endUses.length === 0) return null;
+    return convertGasToElectric(baseGasReadings, endUses, temperatures, utilityTimeZone);
+  }, [simulatedLoads, baseGasReadings, temperatures, utilityTimeZone]);
+
   // Calculate simulated load additions for each reading
   const readingsWithSimulation = useMemo(() => {
-    if (readings.length === 0 || simulatedLoads.length === 0) return readings;
+    if (baseReadings.length === 0 || simulatedLoads.length === 0) return baseReadings;
 
-    const enabledLoads = simulatedLoads.filter(l => l.enabled);
-    if (enabledLoads.length === 0) return readings;
+    const enabledLoads = simulatedLoads.filter(l => l.enabled && !(gasConversion && l.gasEndUse));
+    if (enabledLoads.length === 0 && !gasConversion) return baseReadings;
+
+    // Hourly load shapes are spread over however many readings the file has per hour
+    const intervalsPerHour = Math.max(1, Math.round(60 * 60 * 1000 / medianIntervalMs(baseReadings)));
 
-    return readings.map(reading => {
-      const hour = reading.timestamp.getHours();
-      const month = reading.timestamp.getMonth();
+    return baseReadings.map(reading => {
+      const { hour, month } = getZonedParts(reading.timestamp, utilityTimeZone);
       // Map month to season: 0=winter(Dec-Feb), 1=spring, 2=summer, 3=fall
       const seasonIdx = month <= 1 ? 0 : month <= 4 ? 1 : month <= 7 ? 2 : month <= 10 ? 3 : 0;
 
@@ -210,75 +459,58 @@ const App: React.FC = () => {
       for (const load of enabledLoads) {
         // Daily kWh = monthly / 30.44 days
         const dailyKwh = (load.monthlyKwh * load.seasonalMultiplier[seasonIdx]) / 30.44;
-        // Per-interval kWh based on hourly pattern (assuming 15-min intervals = 4 per hour)
+        // Per-interval kWh based on hourly pattern
         const hourlyShare = load.hourlyPattern[hour];
-        additionalKwh += (dailyKwh * hourlyShare) / 4; // Divide by 4 for 15-min intervals
+        additionalKwh += (dailyKwh * hourlyShare) / intervalsPerHour;
+      }
+      if (gasConversion) {
+        additionalKwh += getConvertedHourlyKwh(gasConversion, reading.timestamp, utilityTimeZone) / intervalsPerHour;
       }
 
-      return {
-        ...reading,
-        value: reading.value + additionalKwh
-      };
+      // Added load offsets solar export first when the file has import/export channels
+      return addLoadToReading(reading, additionalKwh);
     });
-  }, [readings, simulatedLoads]);
+  }, [baseReadings, simulatedLoads, gasConversion, utilityTimeZone]);
 
   // Calculate total simulated monthly kWh
   const simulatedMonthlyKwh = useMemo(() => {
-    return simulatedLoads
+    return Math.round(simulatedLoads
       .filter(l => l.enabled)
-      .reduce((sum, load) => sum + load.monthlyKwh, 0);
-  }, [simulatedLoads]);
+      .reduce((sum, load) => sum + (gasConversion && load.gasEndUse ? gasConversion.monthlyKwh[load.gasEndUse] : load.monthlyKwh), 0));
+  }, [simulatedLoads, gasConversion]);
 
   // Calculate gas savings from electrification
   const gasSavings = useMemo(() => {
     const enabledLoads = simulatedLoads.filter(l => l.enabled);
     if (enabledLoads.length === 0) return null;
-    return calculateGasSavingsFromElectrification(enabledLoads, DEFAULT_GAS_TARIFF);
-  }, [simulatedLoads]);
+    if (gasConversion) {
+      const appliances = enabledLoads.filter(l => l.gasEndUse && l.replacesGasAppliance).map(l => l.replacesGasAppliance!);
+      const savings = calculateConversionGasSavings(baseGasReadings, gasConversion, activeGasTariff, utilityTimeZone, customerProfile, billingCycles);
+      return { ...savings, appliances };
+    }
+    return calculateGasSavingsFromElectrification(enabledLoads, activeGasTariff, customerProfile);
+  }, [simulatedLoads, gasConversion, baseGasReadings, activeGasTariff, utilityTimeZone, customerProfile, billingCycles]);
 
   useEffect(() => {
     if (readings.length > 0) {
-      setComparisons(compareTariffs(readingsWithSimulation, currentTariff.id, DEFAULT_TARIFFS));
+      setComparisons(compareTariffs(readingsWithSimulation, currentTariff.id, DEFAULT_TARIFFS, utilityTimeZone, customerProfile, billingCycles));
     }
-  }, [readings, readingsWithSimulation, currentTariff]);
+  }, [readings, readingsWithSimulation, currentTariff, utilityTimeZone, customerProfile, billingCycles]);
 
   const getChunksForPeriod = (data: EnergyReading[], period: TimePeriod) => {
     if (data.length === 0) return [];
     if (period === 'year') return [data];
 
+    // Keys use the utility's calendar; day arithmetic below is on UTC-noon dates so DST can't shift it
     const groupByKey = (d: Date) => {
-      if (period === 'day') return d.toLocaleDateString();
+      if (period === 'day') return zonedDayKey(d, utilityTimeZone);
+      const p = getZonedParts(d, utilityTimeZone);
       if (period === 'week') {
-        const firstDayOfYear = new Date(d.getFullYear(), 0, 1);
-        const pastDaysOfYear = (d.getTime() - firstDayOfYear.getTime()) / 86400000;
-        return `${d.getFullYear()}-W${Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7)}`;
-      }
-      if (period === 'month') {
-        if (customBillingDates.length > 0) {
-          const readingTs = new Date(d.getFullYear(), d.getMonth(), d.getDate(), 12, 0, 0).getTime();
-          const readingDateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-          const toKey = (dt: Date) => `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, '0')}-${String(dt.getDate()).padStart(2, '0')}`;
-
-          const knownEnd = customBillingDates.find(ed => ed >= readingDateStr);
-          if (knownEnd) {
-            const [ey, em, eday] = knownEnd.split('-').map(Number);
-            const endTs = new Date(ey, em - 1, eday, 12, 0, 0).getTime();
-            const daysToEnd = (endTs - readingTs) / 86400000;
-            if (daysToEnd <= 33) return knownEnd;
-            // Reading is too far before this end date — extrapolate backward in ~30-day steps
-            const stepsBack = Math.ceil((daysToEnd - 33) / 30);
-            return toKey(new Date(endTs - stepsBack * 30 * 86400000));
-          }
-
-          // After last known date — extrapolate forward in ~30-day steps
-          const last = customBillingDates[customBillingDates.length - 1];
-          const [ly, lm, ld] = last.split('-').map(Number);
-          const lastEndTs = new Date(ly, lm - 1, ld, 12, 0, 0).getTime();
-          const stepsAhead = Math.ceil((readingTs - lastEndTs) / (30 * 86400000));
-          return toKey(new Date(lastEndTs + stepsAhead * 30 * 86400000));
-        }
-        return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+        const firstDayOfYear = new Date(Date.UTC(p.year, 0, 1));
+        const pastDaysOfYear = (Date.UTC(p.year, p.month, p.day) - firstDayOfYear.getTime()) / 86400000 + (p.hour * 60 + p.minute) / 1440;
+        return `${p.year}-W${Math.ceil((pastDaysOfYear + firstDayOfYear.getUTCDay() + 1) / 7)}`;
       }
+      if (period === 'month') return resolveBillingPeriod(d).key;
       return '';
     };
 
@@ -299,7 +531,7 @@ const App: React.FC = () => {
     return chunks.reverse();
   };
 
-  const periodChunks = useMemo(() => getChunksForPeriod(readingsWithSimulation, selectedPeriod), [readingsWithSimulation, selectedPeriod, customBillingDates]);
+  const periodChunks = useMemo(() => getChunksForPeriod(readingsWithSimulation, selectedPeriod), [readingsWithSimulation, selectedPeriod, resolveBillingPeriod, utilityTimeZone]);
 
   useEffect(() => {
     if (isDrillingDown.current) {
@@ -334,38 +566,39 @@ const App: React.FC = () => {
   const chartReadings = useMemo(() => {
     if (filteredReadings.length <= 2000) return filteredReadings;
 
-    const map = new Map<number, EnergyReading>();
+    // Measured and estimated energy aggregate separately so the chart can still tell them apart
+    const map = new Map<string, EnergyReading>();
 
     if (selectedPeriod === 'year') {
       // Aggregate 15-min intervals to daily (~365 items instead of ~35K)
       filteredReadings.forEach(r => {
-        const d = new Date(r.timestamp);
-        d.setHours(0, 0, 0, 0);
-        const key = d.getTime();
+        const d = startOfZonedDay(r.timestamp, utilityTimeZone);
+        const key = `${d.getTime()}-${r.estimated ? 'e' : 'm'}`;
         const existing = map.get(key);
         if (existing) {
-          existing.value += r.value;
+          accumulateReading(existing, r);
         } else {
-          map.set(key, { timestamp: d, value: r.value });
+          map.set(key, { ...r, timestamp: d });
         }
       });
     } else {
       // Aggregate to hourly for week/month views
       filteredReadings.forEach(r => {
-        const d = new Date(r.timestamp);
-        d.setMinutes(0, 0, 0);
-        const key = d.getTime();
+        // Floor the instant (not the wall clock) so the repeated fall-back hour stays separate
+        const minuteStart = Math.floor(r.timestamp.getTime() / 60000) * 60000;
+        const d = new Date(minuteStart - getZonedParts(r.timestamp, utilityTimeZone).minute * 60000);
+        const key = `${d.getTime()}-${r.estimated ? 'e' : 'm'}`;
         const existing = map.get(key);
         if (existing) {
-          existing.value += r.value;
+          accumulateReading(existing, r);
         } else {
-          map.set(key, { timestamp: d, value: r.value });
+          map.set(key, { ...r, timestamp: d });
         }
       });
     }
 
     return Array.from(map.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  }, [filteredReadings, selectedPeriod]);
+  }, [filteredReadings, selectedPeriod, utilityTimeZone]);
 
   const handleDrillDown = (timestamp: number) => {
     const targetDate = new Date(timestamp);
@@ -377,8 +610,8 @@ const App: React.FC = () => {
 
     const nextChunks = getChunksForPeriod(readingsWithSimulation, nextPeriod);
     const targetKey = (d: Date) => {
-      if (nextPeriod === 'month') return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-      if (nextPeriod === 'day') return d.toLocaleDateString();
+      if (nextPeriod === 'month') return zonedMonthKey(d, utilityTimeZone);
+      if (nextPeriod === 'day') return zonedDayKey(d, utilityTimeZone);
       return '';
     };
 
@@ -403,29 +636,31 @@ const App: React.FC = () => {
     const start = filteredReadings[0].timestamp;
     const end = filteredReadings[filteredReadings.length - 1].timestamp;
 
-    if (selectedPeriod === 'day') return start.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' });
-    if (selectedPeriod === 'week') return `Week of ${start.toLocaleDateString([], { month: 'short', day: 'numeric' })} - ${end.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+    const timeZone = utilityTimeZone;
+    if (selectedPeriod === 'day') return start.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric', timeZone });
+    if (selectedPeriod === 'week') return `Week of ${start.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })} - ${end.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })}`;
     if (selectedPeriod === 'month') {
       if (customBillingDates.length > 0) {
-        return `${start.toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+        return `${start.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })} – ${end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone })}`;
       }
-      return start.toLocaleDateString([], { month: 'long', year: 'numeric' });
+      return start.toLocaleDateString([], { month: 'long', year: 'numeric', timeZone });
     }
-    return `Full Dataset History (${start.getFullYear()})`;
-  }, [filteredReadings, selectedPeriod]);
+    return `Full Dataset History (${getZonedParts(start, timeZone).year})`;
+  }, [filteredReadings, selectedPeriod, utilityTimeZone]);
 
   const periodStats = useMemo(() => {
     if (filteredReadings.length === 0 || comparisons.length === 0) return null;
     const usage = filteredReadings.reduce((s, r) => s + r.value, 0);
-    const tempCalc = calculateDetailedCost(filteredReadings, currentTariff);
-    return { usage, cost: tempCalc.totalCost };
-  }, [filteredReadings, comparisons, currentTariff]);
+    const importKwh = filteredReadings.reduce((s, r) => s + getImportKwh(r), 0);
+    const tempCalc = calculateDetailedCost(filteredReadings, currentTariff, utilityTimeZone, customerProfile, billingCycles);
+    return { usage, importKwh, cost: tempCalc.totalCost };
+  }, [filteredReadings, comparisons, currentTariff, utilityTimeZone, customerProfile, billingCycles]);
 
-  const periodMonthKey = useMemo(() => {
+  // Breakdown key of the selected month view (the billing cycle when cycles are set)
+  const periodBillKey = useMemo(() => {
     if (filteredReadings.length === 0) return null;
-    const d = filteredReadings[0].timestamp;
-    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-  }, [filteredReadings]);
+    return resolveBillingPeriod(filteredReadings[0].timestamp).key;
+  }, [filteredReadings, resolveBillingPeriod]);
 
   const periodGasCost = useMemo(() => {
     if (filteredReadings.length === 0) return null;
@@ -434,95 +669,80 @@ const App: React.FC = () => {
 
     if (selectedPeriod === 'year') {
       if (!gasComparison || gasComparison.breakdown.length === 0) return null;
-      const year = start.getFullYear();
+      const year = getZonedParts(start, utilityTimeZone).year;
       return gasComparison.breakdown
-        .filter(b => b.monthName.startsWith(`${year}-`))
+        .filter(b => b.month.startsWith(`${year}-`))
         .reduce((sum, b) => sum + b.cost, 0);
     }
 
     if (selectedPeriod === 'month') {
       // Sum gas readings that actually fall within this billing period's date range.
-      // Using periodMonthKey (calendar month of period start) misses gas timestamped in
+      // Using the calendar month of the period start misses gas timestamped in
       // the next calendar month — e.g. a Nov 27–Dec 29 billing period has most readings in Dec.
-      if (gasReadings.length === 0) return null;
-      const periodStart = new Date(start.getFullYear(), start.getMonth(), start.getDate());
-      const periodEnd   = new Date(end.getFullYear(),   end.getMonth(),   end.getDate(), 23, 59, 59);
-      const inPeriod = gasReadings.filter(r => r.timestamp >= periodStart && r.timestamp <= periodEnd);
+      if (baseGasReadings.length === 0) return null;
+      const periodStart = startOfZonedDay(start, utilityTimeZone);
+      const endParts = getZonedParts(end, utilityTimeZone);
+      const periodEnd = zonedTimeToDate({ year: endParts.year, monthIndex: endParts.month, day: endParts.day + 1, hours: 0, minutes: 0, seconds: 0 }, utilityTimeZone);
+      const inPeriod = baseGasReadings.filter(r => r.timestamp >= periodStart && r.timestamp < periodEnd);
       if (inPeriod.length === 0) return null;
       const therms = inPeriod.reduce((sum, r) => sum + r.value, 0);
-      // Prorate baseline for actual period length (baseline is expressed as a daily rate)
+      // Baseline is a daily allowance by season, summed over the period's days
       const periodDays = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      const proratedBaseline = activeGasTariff.baselineTherms * periodDays / 30;
+      const proratedBaseline = getGasBaselineAllowance(activeGasTariff, zonedDayKey(start, utilityTimeZone), periodDays, customerProfile);
       const baseline = Math.min(therms, proratedBaseline);
       const overBase = Math.max(0, therms - proratedBaseline);
-      return (baseline * activeGasTariff.baselineRate) + (overBase * activeGasTariff.overBaselineRate) + activeGasTariff.fixedMonthlyCharge;
+      const rates = getGasRates(activeGasTariff, zonedMonthKey(end, utilityTimeZone));
+      const thermCost = (baseline * rates.baselineRate) + (overBase * rates.overBaselineRate);
+      return thermCost * (1 - getGasDiscountRate(customerProfile)) + activeGasTariff.fixedMonthlyCharge;
     }
 
-    // day / week: prorate the calendar-month entry by period length
+    // day / week: prorate the billing period (or calendar month) entry by period length
     if (!gasComparison || gasComparison.breakdown.length === 0) return null;
-    const monthEntry = gasComparison.breakdown.find(b => b.monthName === periodMonthKey);
+    const monthEntry = gasComparison.breakdown.find(b => b.monthName === periodBillKey);
     if (!monthEntry) return null;
-    const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+    const startParts = getZonedParts(start, utilityTimeZone);
+    const daysInMonth = monthEntry.days ?? new Date(Date.UTC(startParts.year, startParts.month + 1, 0)).getUTCDate();
     const periodDays = Math.max(1, Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1);
     return (monthEntry.cost / daysInMonth) * periodDays;
-  }, [selectedPeriod, filteredReadings, gasReadings, gasComparison, periodMonthKey, activeGasTariff]);
-
-  const NEM_MIN_DELIVERY = 13.30; // PG&E minimum monthly delivery charge paid regardless
-  // Non-Bypassable Charges: PPP + nuclear decom + CTC + wildfire fund ≈ $0.035/kWh
-  // These apply to ALL gross grid consumption and defer to True-Up (NEM customers can't offset them)
-  const NEM_NBC_RATE = 0.035;
+  }, [selectedPeriod, filteredReadings, baseGasReadings, gasComparison, periodBillKey, activeGasTariff, utilityTimeZone, customerProfile]);
+
+  // Therms in the selected period, for per-therm surcharges
+  const periodGasTherms = useMemo(() => {
+    if (filteredReadings.length === 0 || baseGasReadings.length === 0) return 0;
+    const periodStart = startOfZonedDay(filteredReadings[0].timestamp, utilityTimeZone);
+    const endParts = getZonedParts(filteredReadings[filteredReadings.length - 1].timestamp, utilityTimeZone);
+    const periodEnd = zonedTimeToDate({ year: endParts.year, monthIndex: endParts.month, day: endParts.day + 1, hours: 0, minutes: 0, seconds: 0 }, utilityTimeZone);
+    return baseGasReadings
+      .filter(r => r.timestamp >= periodStart && r.timestamp < periodEnd)
+      .reduce((sum, r) => sum + r.value, 0);
+  }, [filteredReadings, baseGasReadings, utilityTimeZone]);
 
   const nemTrueUp = useMemo(() => {
-    if (!nemEnabled || comparisons.length === 0) return null;
-    const breakdown = comparisons.find(c => c.tariffId === currentTariff.id)?.breakdown ?? [];
-    const sorted = [...breakdown].sort((a, b) => a.monthName.localeCompare(b.monthName));
-
-    // Check if this tariff has delivery rates (needed for MCE/NEM split)
-    const hasDeliveryRates = currentTariff.periods.some(p => p.deliveryRate != null);
-
-    let runningBalance = 0;
-    let deliveryByMonth: Record<string, number> = {};
-    if (hasDeliveryRates) {
-      deliveryByMonth = calculateMonthlyDeliveryCost(readingsWithSimulation, currentTariff);
-    }
-
-    // Gross consumption per month (positive readings only) for NBC calculation
-    const grossByMonth = calculateMonthlyGrossConsumption(readingsWithSimulation);
-
-    const pciaRate = currentTariff.pciaRate ?? 0;
-    const monthlyCredit = currentTariff.monthlyCredit ?? 0;
-
-    const months = sorted.map(m => {
-      const totalCost = m.cost;
-      const grossConsumption = grossByMonth[m.monthName] ?? Math.max(0, m.usage);
-      // NBCs on gross consumption — deferred to True-Up
-      const nbcCost = NEM_NBC_RATE * grossConsumption;
-      // PCIA on gross consumption — defers to True-Up for MCE/CCA customers
-      const pciaCost = pciaRate * grossConsumption;
-
-      if (hasDeliveryRates) {
-        // MCE NEM model: generation paid monthly; delivery + PCIA + NBCs defer to True-Up
-        const deliveryCost = deliveryByMonth[m.monthName] ?? 0;
-        const generationCost = totalCost - deliveryCost; // generation + fixed charges
-        // Monthly statement: generation + minimum delivery + any monthly credits
-        const electricityStatement = generationCost + NEM_MIN_DELIVERY;
-        const statementAmount = electricityStatement + monthlyCredit;
-        // True-Up accumulates: delivery + NBCs + PCIA
-        runningBalance += deliveryCost + nbcCost + pciaCost;
-        return { monthName: m.monthName, usage: m.usage, netCost: totalCost, deliveryCost, generationCost, electricityStatement, pciaCost, nbcCost, statementAmount, runningBalance };
-      } else {
-        // PG&E bundled NEM: full cost defers, plus NBCs
-        const electricityStatement = totalCost > NEM_MIN_DELIVERY ? totalCost : NEM_MIN_DELIVERY;
-        const statementAmount = electricityStatement + monthlyCredit;
-        runningBalance += totalCost + nbcCost;
-        return { monthName: m.monthName, usage: m.usage, netCost: totalCost, deliveryCost: totalCost, generationCost: 0, electricityStatement, pciaCost, nbcCost, statementAmount, runningBalance };
-      }
+    if (!nemEnabled || readingsWithSimulation.length === 0) return null;
+    const climateProvider = currentTariff.provider ?? provider;
+    return calculateNemTrueUp(readingsWithSimulation, currentTariff, {
+      timeZone: utilityTimeZone,
+      customer: customerProfile,
+      billingCycles,
+      anniversaryMonth: nemAnniversaryMonth ?? undefined,
+      climateCredit: climateProvider ? PROVIDER_CLIMATE_CREDITS[climateProvider] : 0
+    });
+  }, [nemEnabled, currentTariff, provider, readingsWithSimulation, utilityTimeZone, customerProfile, billingCycles, nemAnniversaryMonth]);
+
+  // Net Billing Tariff (NEM 3.0) for the same data, shown side by side with the NEM 2 true-up
+  const netBilling = useMemo(() => {
+    if (!nemEnabled || readingsWithSimulation.length === 0) return null;
+    return calculateNetBilling(readingsWithSimulation, currentTariff, DEFAULT_EXPORT_RATE_TABLE, {
+      timeZone: utilityTimeZone,
+      customer: customerProfile,
+      billingCycles,
+      minimumMonthlyCharge: NEM_MIN_DELIVERY,
+      anniversaryMonth: nemAnniversaryMonth ?? undefined
     });
+  }, [nemEnabled, readingsWithSimulation, currentTariff, utilityTimeZone, customerProfile, billingCycles, nemAnniversaryMonth]);
 
-    const trueUpBalance = runningBalance;
-    const totalStatements = months.reduce((s, m) => s + m.statementAmount, 0);
-    return { months, trueUpBalance, totalStatements, hasDeliveryRates };
-  }, [nemEnabled, comparisons, currentTariff, readingsWithSimulation]);
+  // True-Up table: Month, Net kWh, [Delivery], Statement, True-Up Balance, [NBT Statement]
+  const nemTableCols = ['grid-cols-4', 'grid-cols-5', 'grid-cols-6'][(nemTrueUp?.isCca ? 1 : 0) + (netBilling ? 1 : 0)];
 
   const sortedComparisons = useMemo(() => {
     if (comparisons.length === 0) return [];
@@ -544,15 +764,15 @@ const App: React.FC = () => {
     const days = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
     const months = Math.round(days / 30.44);
     const hasSummer = readings.some(r => {
-      const m = r.timestamp.getMonth();
+      const m = getZonedParts(r.timestamp, utilityTimeZone).month;
       return m >= 5 && m <= 8; // June-Sept
     });
     const hasWinter = readings.some(r => {
-      const m = r.timestamp.getMonth();
+      const m = getZonedParts(r.timestamp, utilityTimeZone).month;
       return m <= 1 || m >= 10; // Nov-Feb
     });
     return { days, months, hasSummer, hasWinter, start, end };
-  }, [readings]);
+  }, [readings, utilityTimeZone]);
 
   const navigate = (dir: number) => {
     setChunkIndex(prev => {
@@ -603,6 +823,9 @@ const App: React.FC = () => {
              {readings.length > 0 && (
                <button onClick={() => {
                  setReadings([]);
+                 setUploadSources([]);
+                 setMergedSources([]);
+                 setDataTimeZone(null);
                  setAiAnalysis(null);
                  setUploadError(null);
                  setUploadWarnings([]);
@@ -752,8 +975,8 @@ const App: React.FC = () => {
             </p>
             <label className="group relative inline-flex items-center gap-4 bg-slate-900 hover:bg-blue-600 text-white font-black py-7 px-14 rounded-[2.5rem] cursor-pointer transition-all transform hover:-translate-y-2 shadow-2xl shadow-blue-300 overflow-hidden">
               <i className="fa-solid fa-cloud-arrow-up text-xl transition-transform group-hover:scale-125"></i>
-              <span className="text-lg">Upload Green Button CSV</span>
-              <input type="file" className="hidden" onChange={handleFileUpload} accept=".csv" />
+              <span className="text-lg">Upload Green Button CSV / XML</span>
+              <input type="file" className="hidden" onChange={e => handleFileUpload(e)} accept=".csv,.xml" multiple />
             </label>
 
             {/* Help section for getting data */}
@@ -794,11 +1017,11 @@ const App: React.FC = () => {
                   </li>
                   <li className="flex gap-2">
                     <span className="flex-shrink-0 w-5 h-5 bg-slate-200 rounded-full text-[10px] font-black flex items-center justify-center">3</span>
-                    <span>Select <strong>Export usage data</strong> (CSV format)</span>
+                    <span>Select <strong>Export usage data</strong> (CSV or XML format)</span>
                   </li>
                   <li className="flex gap-2">
                     <span className="flex-shrink-0 w-5 h-5 bg-slate-200 rounded-full text-[10px] font-black flex items-center justify-center">4</span>
-                    <span>Choose <strong>1 year</strong> of interval data, then download</span>
+                    <span>Choose <strong>1 year</strong> of interval data, then download (select several files to merge longer history)</span>
                   </li>
                 </ol>
               </div>
@@ -808,7 +1031,7 @@ const App: React.FC = () => {
               <div className="mt-8 max-w-2xl mx-auto text-left">
                 {uploadedFileName && (
                   <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
-                    Selected file: <span className="text-slate-700">{uploadedFileName}</span>
+                    Selected file{uploadedFileName.includes(', ') ? 's' : ''}: <span className="text-slate-700">{uploadedFileName}</span>
                   </p>
                 )}
                 {uploadError && (
@@ -879,7 +1102,7 @@ const App: React.FC = () => {
                                 ? 'text-blue-800'
                                 : 'text-amber-800'
                           }`}>
-                            {dataCoverage.start.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })} — {dataCoverage.end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
+                            {dataCoverage.start.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone: utilityTimeZone })} — {dataCoverage.end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone: utilityTimeZone })}
                           </p>
                           {dataCoverage.months < 12 && (
                             <p className={`text-xs mt-2 ${
@@ -903,6 +1126,99 @@ const App: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Source Files */}
+                  {mergedSources.length > 0 && (
+                    <div className="bg-white border border-slate-100 rounded-[2rem] p-6">
+                      <div className="flex items-center justify-between mb-3">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                          Source file{mergedSources.length !== 1 ? 's' : ''}
+                        </p>
+                        <label className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-700 font-bold text-xs rounded-xl cursor-pointer transition-all">
+                          <i className="fa-solid fa-plus text-xs"></i>
+                          Add files
+                          <input type="file" className="hidden" onChange={e => handleFileUpload(e, true)} accept=".csv,.xml" multiple />
+                        </label>
+                      </div>
+                      <ul className="space-y-1.5">
+                        {mergedSources.map((src, idx) => (
+                          <li key={idx} className="flex items-center justify-between gap-4 text-sm">
+                            <span className="font-bold text-slate-700 truncate">{src.fileName}</span>
+                            <span className="text-xs font-medium text-slate-400 flex-shrink-0">
+                              {src.start.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone: src.timeZone })} — {src.end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone: src.timeZone })}
+                              {src.keptCount < src.readingCount && (
+                                <span className="ml-2 text-amber-600">{(src.readingCount - src.keptCount).toLocaleString()} overlapping</span>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Data Quality — gaps, outages, spikes and imputation */}
+                  {dataQuality && (dataQuality.gaps.length > 0 || dataQuality.zeroRuns.length > 0 || dataQuality.spikes.length > 0) && (
+                    <div className="bg-white border border-slate-100 rounded-[2rem] p-6">
+                      <div className="flex items-center justify-between mb-3">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                          Data quality · {dataQuality.coveragePct.toFixed(1)}% measured
+                        </p>
+                        <div className="flex bg-slate-50 p-1 rounded-xl border border-slate-100">
+                          {([
+                            { id: 'none', label: 'Leave gaps' },
+                            { id: 'profile', label: 'Weekday profile' },
+                            { id: 'linear', label: 'Linear' },
+                          ] as Array<{ id: ImputationMethod; label: string }>).map(opt => (
+                            <button
+                              key={opt.id}
+                              onClick={() => { localStorage.setItem('vc_imputation', opt.id); setImputationMethod(opt.id); }}
+                              className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase transition-all ${
+                                imputationMethod === opt.id ? 'bg-white text-blue-600 shadow-sm border border-slate-200' : 'text-slate-400 hover:text-slate-600'
+                              }`}
+                            >
+                              {opt.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-3 mb-3">
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Gaps</p>
+                          <p className="text-base font-black text-slate-900">{dataQuality.gaps.length} <span className="text-xs font-bold text-slate-400">({dataQuality.missingIntervals.toLocaleString()} intervals)</span></p>
+                        </div>
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Zero runs</p>
+                          <p className="text-base font-black text-slate-900">{dataQuality.zeroRuns.length}</p>
+                        </div>
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Spikes</p>
+                          <p className="text-base font-black text-slate-900">{dataQuality.spikes.length}</p>
+                        </div>
+                      </div>
+                      <ul className="space-y-1 text-xs font-medium text-slate-500">
+                        {[...dataQuality.gaps.map(g => ({ ...g, kind: 'Missing' })), ...dataQuality.zeroRuns.map(z => ({ ...z, kind: 'Zero readings' }))]
+                          .sort((a, b) => b.intervals - a.intervals)
+                          .slice(0, 5)
+                          .map((g, idx) => (
+                            <li key={idx}>
+                              {g.kind}: {g.start.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: utilityTimeZone })} – {g.end.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: utilityTimeZone })}
+                              <span className="text-slate-400"> · {(g.intervals * dataQuality.intervalMinutes / 60).toFixed(1)} h</span>
+                            </li>
+                          ))}
+                        {dataQuality.spikes.slice(0, 3).map((sp, idx) => (
+                          <li key={`spike-${idx}`}>
+                            Spike: {sp.timestamp.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: utilityTimeZone })}
+                            <span className="text-slate-400"> · {sp.value.toFixed(2)} kWh (threshold {sp.threshold.toFixed(2)})</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-[10px] text-slate-400 font-medium mt-3">
+                        {imputationMethod === 'none'
+                          ? 'Gaps are left empty. Monthly estimates scale by the days actually measured.'
+                          : `Missing intervals and zero-reading outages are filled ${imputationMethod === 'profile' ? 'from your average usage for the same weekday and time' : 'by linear interpolation'}, and shown as estimated.`}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Import Notes */}
                   {uploadWarnings.length > 0 && (
                     <div className="bg-slate-50 border border-slate-100 text-slate-700 rounded-[2rem] p-6">
@@ -936,8 +1252,9 @@ const App: React.FC = () => {
                         {nemEnabled && <span className="text-[9px] font-black bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded-full">Solar NEM</span>}
                         {gasReadings.length > 0 && <span className="text-[9px] font-black bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">Gas</span>}
                         {customBillingDates.length > 0 && <span className="text-[9px] font-black bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{customBillingDates.length} periods</span>}
-                        {!nemEnabled && gasReadings.length === 0 && customBillingDates.length === 0 && (
-                          <span className="text-[10px] text-slate-400 font-medium">Solar · Gas · Billing dates</span>
+                        {baselineTerritory && <span className="text-[9px] font-black bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full">Territory {baselineTerritory}</span>}
+                        {!nemEnabled && gasReadings.length === 0 && customBillingDates.length === 0 && !baselineTerritory && (
+                          <span className="text-[10px] text-slate-400 font-medium">Solar · Territory · Gas · Billing dates</span>
                         )}
                       </div>
                     )}
@@ -972,8 +1289,254 @@ const App: React.FC = () => {
                           <span className={`absolute top-1 w-4 h-4 rounded-full bg-white shadow transition-all ${nemEnabled ? 'left-6' : 'left-1'}`} />
                         </button>
                       </div>
+                      {nemEnabled && (
+                        <div className="mt-3 ml-8 flex items-center gap-2">
+                          <label className="text-xs font-bold text-yellow-800">True-Up month</label>
+                          <select
+                            value={nemAnniversaryMonth ?? ''}
+                            onChange={e => {
+                              const next = e.target.value ? Number(e.target.value) : null;
+                              if (next) localStorage.setItem('vc_nem_anniversary', String(next));
+                              else localStorage.removeItem('vc_nem_anniversary');
+                              setNemAnniversaryMonth(next);
+                            }}
+                            className="text-xs font-bold bg-white border border-yellow-200 rounded-lg px-2 py-1 text-slate-700"
+                          >
+                            <option value="">First month of data</option>
+                            {Array.from({ length: 12 }, (_, i) => (
+                              <option key={i} value={i + 1}>{new Date(2000, i, 1).toLocaleDateString([], { month: 'long' })}</option>
+                            ))}
+                          </select>
+                          <span className="text-[10px] text-yellow-600 font-medium">from page 1 of your bill</span>
+                        </div>
+                      )}
+                      {currentTariff.pciaByVintage && (
+                        <div className="mt-2 ml-8 flex items-center gap-2">
+                          <label className="text-xs font-bold text-yellow-800">PCIA vintage</label>
+                          <select
+                            value={pciaVintage ?? ''}
+                            onChange={e => {
+                              const next = e.target.value || null;
+                              if (next) localStorage.setItem('vc_pcia_vintage', next);
+                              else localStorage.removeItem('vc_pcia_vintage');
+                              setPciaVintage(next);
+                            }}
+                            className="text-xs font-bold bg-white border border-yellow-200 rounded-lg px-2 py-1 text-slate-700"
+                          >
+                            <option value="">Default</option>
+                            {Object.keys(currentTariff.pciaByVintage).sort().map(year => (
+                              <option key={year} value={year}>{year}</option>
+                            ))}
+                          </select>
+                          <span className="text-[10px] text-yellow-600 font-medium">from page 2 of your bill</span>
+                        </div>
+                      )}
                     </div>
 
+                    {/* Baseline Territory */}
+                    {(() => {
+                      const table = getBaselineTable(currentTariff);
+                      const territory = resolveBaselineTerritory(table, customerProfile);
+                      const isSet = baselineTerritory != null && territory === baselineTerritory;
+                      return (
+                        <div className={`px-6 py-4 transition-colors ${isSet ? 'bg-emerald-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <i className={`fa-solid fa-map-location-dot text-base flex-shrink-0 ${isSet ? 'text-emerald-500' : 'text-slate-300'}`}></i>
+                              <div className="min-w-0">
+                                <h4 className={`text-sm font-black ${isSet ? 'text-emerald-900' : 'text-slate-600'}`}>Baseline Territory</h4>
+                                <p className={`text-xs font-medium ${isSet ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                  {isSet
+                                    ? `${table.name} ${territory} · ${allElectric ? 'all-electric' : 'basic'} allowance for tiered rates`
+                                    : `Using ${table.name} ${territory} — set yours from your bill for accurate Tier 1 allowances`}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <select
+                                value={isSet ? territory : ''}
+                                onChange={e => {
+                                  const next = e.target.value || null;
+                                  if (next) localStorage.setItem('vc_baseline_territory', next);
+                                  else localStorage.removeItem('vc_baseline_territory');
+                                  setBaselineTerritory(next);
+                                }}
+                                className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-700"
+                              >
+                                <option value="">Default ({table.defaultTerritory})</option>
+                                {Object.keys(table.territories).map(t => (
+                                  <option key={t} value={t}>{t}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => {
+                                  const next = !allElectric;
+                                  localStorage.setItem('vc_all_electric', String(next));
+                                  setAllElectric(next);
+                                }}
+                                className={`text-[10px] font-black uppercase tracking-widest px-2.5 py-1.5 rounded-lg transition-all ${allElectric ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-500'}`}
+                              >
+                                All-electric
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    {/* Gas Baseline Zone (utilities whose gas zones differ from electric territories) */}
+                    {gasReadings.length > 0 && (() => {
+                      const table = getGasBaselineTable(activeGasTariff);
+                      if (table.sharesElectricTerritories) return null;
+                      const zone = resolveGasBaselineTerritory(table, customerProfile);
+                      const isSet = gasClimateZone != null && zone === gasClimateZone;
+                      return (
+                        <div className={`px-6 py-4 transition-colors ${isSet ? 'bg-emerald-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <i className={`fa-solid fa-fire-flame-simple text-base flex-shrink-0 ${isSet ? 'text-emerald-500' : 'text-slate-300'}`}></i>
+                              <div className="min-w-0">
+                                <h4 className={`text-sm font-black ${isSet ? 'text-emerald-900' : 'text-slate-600'}`}>Gas Baseline Zone</h4>
+                                <p className={`text-xs font-medium ${isSet ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                  {isSet
+                                    ? `${table.name} ${zone} · seasonal therm allowance for gas baseline`
+                                    : `Using ${table.name} ${zone} — set yours from your gas bill`}
+                                </p>
+                              </div>
+                            </div>
+                            <select
+                              value={isSet ? zone : ''}
+                              onChange={e => {
+                                const next = e.target.value || null;
+                                if (next) localStorage.setItem('vc_gas_climate_zone', next);
+                                else localStorage.removeItem('vc_gas_climate_zone');
+                                setGasClimateZone(next);
+                              }}
+                              className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-700 flex-shrink-0"
+                            >
+                              <option value="">Default ({table.defaultTerritory})</option>
+                              {Object.keys(table.territories).map(t => (
+                                <option key={t} value={t}>{t}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    {/* Discount Programs */}
+                    {(() => {
+                      const program = getDiscountProgram(customerProfile);
+                      const isSet = program != null || medicalBaseline;
+                      const notes = [
+                        program && `${program.name}: ${Math.round(program.electricDiscount * 100)}% off electric${program.gasDiscount > 0 ? `, ${Math.round(program.gasDiscount * 100)}% off gas` : ''}, reduced fixed charge`,
+                        medicalBaseline && 'Medical Baseline: extra daily baseline allowance'
+                      ].filter(Boolean);
+                      return (
+                        <div className={`px-6 py-4 transition-colors ${isSet ? 'bg-emerald-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <i className={`fa-solid fa-hand-holding-dollar text-base flex-shrink-0 ${isSet ? 'text-emerald-500' : 'text-slate-300'}`}></i>
+                              <div className="min-w-0">
+                                <h4 className={`text-sm font-black ${isSet ? 'text-emerald-900' : 'text-slate-600'}`}>Discount Programs</h4>
+                                <p className={`text-xs font-medium ${isSet ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                  {isSet ? notes.join(' · ') : 'Enrolled in CARE, FERA or Medical Baseline? Your bill is lower'}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <select
+                                value={incomeTier}
+                                onChange={e => {
+                                  const next = e.target.value as IncomeTier;
+                                  localStorage.setItem('vc_income_tier', next);
+                                  setIncomeTier(next);
+                                }}
+                                className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-700"
+                              >
+                                {(Object.keys(INCOME_TIER_LABELS) as IncomeTier[]).map(tier => (
+                                  <option key={tier} value={tier}>{INCOME_TIER_LABELS[tier]}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => {
+                                  const next = !medicalBaseline;
+                                  localStorage.setItem('vc_medical_baseline', String(next));
+                                  setMedicalBaseline(next);
+                                }}
+                                className={`text-[10px] font-black uppercase tracking-widest px-2.5 py-1.5 rounded-lg transition-all ${medicalBaseline ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-500'}`}
+                              >
+                                Medical
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    {/* City Taxes */}
+                    {(() => {
+                      const taxProvider = currentTariff.provider ?? provider ?? 'pge-bundled';
+                      const cities = getTaxCities(taxTable, taxProvider);
+                      const isSet = taxCity != null && cities.includes(taxCity);
+                      return (
+                        <div className={`px-6 py-4 transition-colors ${isSet ? 'bg-emerald-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <i className={`fa-solid fa-landmark text-base flex-shrink-0 ${isSet ? 'text-emerald-500' : 'text-slate-300'}`}></i>
+                              <div className="min-w-0">
+                                <h4 className={`text-sm font-black ${isSet ? 'text-emerald-900' : 'text-slate-600'}`}>City Taxes</h4>
+                                <p className={`text-xs font-medium ${isSet ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                  {isSet
+                                    ? `${taxCity} utility users tax and fees added to your bill`
+                                    : 'State surcharge only — pick your city for utility users tax and franchise fees'}
+                                </p>
+                              </div>
+                            </div>
+                            <select
+                              value={isSet ? taxCity! : ''}
+                              onChange={e => {
+                                const next = e.target.value || null;
+                                if (next) localStorage.setItem('vc_tax_city', next);
+                                else localStorage.removeItem('vc_tax_city');
+                                setTaxCity(next);
+                              }}
+                              className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-700 flex-shrink-0"
+                            >
+                              <option value="">Other / unincorporated</option>
+                              {cities.map(city => (
+                                <option key={city} value={city}>{city}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="mt-3 flex items-center justify-between gap-3">
+                            <p className={`text-[10px] font-medium ${isSet ? 'text-emerald-600' : 'text-slate-400'}`}>
+                              {taxTableJson ? 'Your' : 'Bundled'} tax table: {taxTable.name}
+                            </p>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <label className="text-[10px] font-black uppercase tracking-widest text-emerald-500 hover:text-emerald-700 cursor-pointer transition-all">
+                                <i className="fa-solid fa-file-code mr-1"></i>Tax JSON
+                                <input type="file" className="hidden" onChange={handleTaxTableUpload} accept=".json,application/json" />
+                              </label>
+                              {taxTableJson && (
+                                <button
+                                  onClick={() => { localStorage.removeItem('vc_tax_table'); setTaxTableJson(null); setTaxTableError(null); }}
+                                  className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-all"
+                                >
+                                  Reset
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          {taxTableError && (
+                            <div className="mt-3 bg-red-50 border border-red-100 text-red-700 rounded-xl p-3">
+                              <p className="font-bold text-xs">{taxTableError}</p>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })()}
+
                     {/* Gas Data */}
                     <div className={`px-6 py-4 transition-colors ${gasReadings.length > 0 ? 'bg-orange-50' : ''}`}>
                       <div className="flex items-center justify-between gap-4">
@@ -984,15 +1547,15 @@ const App: React.FC = () => {
                             {gasReadings.length > 0 && gasComparison ? (
                               <p className="text-xs text-orange-600 font-medium">{gasComparison.totalUsage.toFixed(0)} therms · ${gasComparison.estimatedMonthlyCost.toFixed(0)}/mo avg</p>
                             ) : (
-                              <p className="text-xs text-slate-400 font-medium">Upload gas Green Button CSV to include gas in your total bill</p>
+                              <p className="text-xs text-slate-400 font-medium">Upload a PG&E or SoCalGas CSV / XML to include gas in your total bill</p>
                             )}
                           </div>
                         </div>
                         {gasReadings.length === 0 ? (
                           <label className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-orange-100 hover:bg-orange-200 text-orange-700 font-bold text-xs rounded-xl cursor-pointer transition-all flex-shrink-0">
                             <i className="fa-solid fa-cloud-arrow-up text-xs"></i>
-                            Upload CSV
-                            <input type="file" className="hidden" onChange={handleGasFileUpload} accept=".csv" />
+                            Upload CSV / XML
+                            <input type="file" className="hidden" onChange={handleGasFileUpload} accept=".csv,.xml" />
                           </label>
                         ) : (
                           <button
@@ -1026,8 +1589,123 @@ const App: React.FC = () => {
                           </div>
                         </div>
                       )}
+                      {gasReadings.length > 0 && (() => {
+                        const history = activeGasTariff.rateHistory ?? [];
+                        return (
+                          <div className="mt-3 flex items-center justify-between gap-3">
+                            <p className="text-[10px] text-orange-600 font-medium">
+                              {history.length > 0
+                                ? `${gasRatesCsv ? 'Your' : 'Bundled'} monthly rates ${history[0].month} – ${history[history.length - 1].month}; later months at ${history[history.length - 1].month} rates, earlier at $${activeGasTariff.baselineRate.toFixed(2)}/$${activeGasTariff.overBaselineRate.toFixed(2)} per therm`
+                                : `No monthly rates for ${activeGasTariff.name} — priced at $${activeGasTariff.baselineRate.toFixed(2)}/$${activeGasTariff.overBaselineRate.toFixed(2)} per therm`}
+                            </p>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <label className="text-[10px] font-black uppercase tracking-widest text-orange-500 hover:text-orange-700 cursor-pointer transition-all">
+                                <i className="fa-solid fa-file-csv mr-1"></i>Rates CSV
+                                <input type="file" className="hidden" onChange={handleGasRatesUpload} accept=".csv" />
+                              </label>
+                              {gasRatesCsv && (
+                                <button
+                                  onClick={() => { localStorage.removeItem('vc_gas_rates'); setGasRatesCsv(null); setGasRatesError(null); }}
+                                  className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-all"
+                                >
+                                  Reset
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })()}
+                      {gasRatesError && (
+                        <div className="mt-3 bg-red-50 border border-red-100 text-red-700 rounded-xl p-3">
+                          <p className="font-bold text-xs">{gasRatesError}</p>
+                        </div>
+                      )}
                     </div>
 
+                    {/* Weather Normalization */}
+                    {(() => {
+                      const isSet = temperatures.length > 0;
+                      const describe = (label: string, unit: string, model: WeatherModel | null) => {
+                        if (!model) return `${label}: not enough overlapping months to fit`;
+                        const slopes = [
+                          model.heatingSlope > 0 && `+${model.heatingSlope.toFixed(2)}/HDD`,
+                          model.coolingSlope > 0 && `+${model.coolingSlope.toFixed(2)}/CDD`
+                        ].filter(Boolean).join(' ');
+                        const annual = model.normalizedAnnual != null
+                          ? ` · normal year ${model.normalizedAnnual.toFixed(0)} vs ${model.observedAnnual.toFixed(0)} ${unit} observed`
+                          : '';
+                        return `${label}: ${model.baseLoadPerDay.toFixed(1)} ${unit}/day ${slopes} (R² ${model.rSquared.toFixed(2)})${annual}`;
+                      };
+                      return (
+                        <div className={`px-6 py-4 transition-colors ${isSet ? 'bg-sky-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <i className={`fa-solid fa-temperature-half text-base flex-shrink-0 ${isSet ? 'text-sky-500' : 'text-slate-300'}`}></i>
+                              <div className="min-w-0">
+                                <h4 className={`text-sm font-black ${isSet ? 'text-sky-900' : 'text-slate-600'}`}>Weather Normalization</h4>
+                                <p className={`text-xs font-medium ${isSet ? 'text-sky-600' : 'text-slate-400'}`}>
+                                  {isSet
+                                    ? `${weatherFileName} · ${temperatures[0].date} – ${temperatures[temperatures.length - 1].date}`
+                                    : 'Upload a NOAA GHCN-Daily temperature CSV (several years) to separate weather from behavior'}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              {isSet ? (
+                                <>
+                                  <button
+                                    onClick={() => {
+                                      const next = !weatherNormalize;
+                                      localStorage.setItem('vc_weather_normalize', String(next));
+                                      setWeatherNormalize(next);
+                                    }}
+                                    className={`text-[10px] font-black uppercase tracking-widest px-2.5 py-1.5 rounded-lg transition-all ${weatherNormalize ? 'bg-sky-500 text-white' : 'bg-slate-100 text-slate-500'}`}
+                                  >
+                                    Normal year
+                                  </button>
+                                  <button
+                                    onClick={() => { setTemperatures([]); setWeatherFileName(null); setWeatherWarnings([]); setWeatherError(null); }}
+                                    className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-all"
+                                  >
+                                    <i className="fa-solid fa-xmark mr-1"></i>Remove
+                                  </button>
+                                </>
+                              ) : (
+                                <>
+                                  <select
+                                    value={weatherUnit}
+                                    onChange={e => setWeatherUnit(e.target.value as TemperatureUnit)}
+                                    className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-700"
+                                  >
+                                    <option value="F">°F</option>
+                                    <option value="C">°C</option>
+                                  </select>
+                                  <label className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-sky-100 hover:bg-sky-200 text-sky-700 font-bold text-xs rounded-xl cursor-pointer transition-all">
+                                    <i className="fa-solid fa-cloud-arrow-up text-xs"></i>
+                                    Upload CSV
+                                    <input type="file" className="hidden" onChange={handleWeatherUpload} accept=".csv" />
+                                  </label>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          {weatherError && (
+                            <div className="mt-3 bg-red-50 border border-red-100 text-red-700 rounded-xl p-3">
+                              <p className="font-bold text-xs">{weatherError}</p>
+                            </div>
+                          )}
+                          {isSet && (
+                            <div className="mt-3 ml-8 space-y-1">
+                              {analyzedReadings.length > 0 && <p className="text-[10px] text-sky-700 font-medium">{describe('Electric', 'kWh', electricWeatherModel)}</p>}
+                              {gasReadings.length > 0 && <p className="text-[10px] text-sky-700 font-medium">{describe('Gas', 'therms', gasWeatherModel)}</p>}
+                              {weatherNormalize && <p className="text-[10px] text-sky-500 font-medium">Comparisons, charts and the simulator use normal-weather usage.</p>}
+                              {weatherWarnings.map(w => <p key={w} className="text-[10px] text-amber-600 font-medium">{w}</p>)}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })()}
+
                     {/* Billing Period End Dates */}
                     <div className={`px-6 py-4 transition-colors ${customBillingDates.length > 0 ? 'bg-blue-50' : ''}`}>
                       <div className="flex items-start gap-3">
@@ -1036,8 +1714,8 @@ const App: React.FC = () => {
                           <h4 className={`text-sm font-black ${customBillingDates.length > 0 ? 'text-blue-900' : 'text-slate-600'}`}>Billing Period End Dates</h4>
                           <p className={`text-xs font-medium mb-2 ${customBillingDates.length > 0 ? 'text-blue-600' : 'text-slate-400'}`}>
                             {customBillingDates.length > 0
-                              ? `${customBillingDates.length} periods — month view aligned to your actual bill cycles`
-                              : 'Paste end dates from your NEM YTD table to align month view to actual bill cycles'}
+                              ? `${customBillingDates.length} periods — bills, tiers and baselines follow your meter read dates`
+                              : 'Paste end dates from your NEM YTD table to bill by your actual meter read cycles'}
                           </p>
                           <textarea
                             rows={2}
@@ -1153,14 +1831,22 @@ const App: React.FC = () => {
                     const elecCost = periodStats?.cost ?? 0;
                     const gasCost = periodGasCost;
                     // NEM: monthly statement shows minimum bill for net-export months
-                    const nemMonthEntry = nemEnabled && selectedPeriod === 'month' && periodMonthKey
-                      ? nemTrueUp?.months.find(m => m.monthName === periodMonthKey)
+                    const nemMonthEntry = nemEnabled && selectedPeriod === 'month' && periodBillKey
+                      ? nemTrueUp?.months.find(m => m.monthName === periodBillKey)
                       : null;
                     const displayElec = nemMonthEntry ? nemMonthEntry.statementAmount : elecCost;
                     const displayPcia = nemMonthEntry ? nemMonthEntry.pciaCost : 0;
                     // Net-export month = delivery was a credit (generation still charged)
                     const isNemMinMonth = nemMonthEntry != null && nemMonthEntry.deliveryCost < 0;
-                    const total = displayElec + (gasCost ?? 0);
+                    // Taxes and surcharges on top of the (discounted) charges; per-kWh items bill grid imports
+                    const taxProvider = currentTariff.provider ?? provider ?? 'pge-bundled';
+                    const elecTaxes = calculateTaxLines(getTaxItems(taxTable, taxProvider, taxCity, 'electric'), displayElec, periodStats?.importKwh ?? 0);
+                    const gasTaxes = gasCost != null
+                      ? calculateTaxLines(getTaxItems(taxTable, taxProvider, taxCity, 'gas'), gasCost, periodGasTherms)
+                      : [];
+                    const taxLines = [...elecTaxes.map(t => ({ ...t, fuel: 'Elec.' })), ...gasTaxes.map(t => ({ ...t, fuel: 'Gas' }))]
+                      .filter(t => t.amount > 0);
+                    const total = displayElec + (gasCost ?? 0) + taxLines.reduce((sum, t) => sum + t.amount, 0);
                     const cardLabel = {
                       day: isOngoingPeriod ? 'Day-to-Date Bill' : "Day's Bill",
                       week: isOngoingPeriod ? 'Week-to-Date Bill' : "Week's Bill",
@@ -1196,6 +1882,12 @@ const App: React.FC = () => {
                               <span className="text-[10px] text-slate-300 font-bold">No data</span>
                             </div>
                           )}
+                          {taxLines.map(t => (
+                            <div key={`${t.fuel}-${t.name}`} className="flex items-center justify-between">
+                              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t.name} ({t.fuel})</span>
+                              <span className="text-[11px] font-black text-slate-700">${t.amount.toFixed(2)}</span>
+                            </div>
+                          ))}
                           {isNemMinMonth && (
                             <p className="text-[9px] text-yellow-600 font-bold pt-1">Net export — delivery credit defers to True-Up</p>
                           )}
@@ -1216,8 +1908,9 @@ const App: React.FC = () => {
                 readings={chartReadings}
                 period={selectedPeriod}
                 tariff={currentTariff}
-                gasReadings={gasReadings.length > 0 ? gasReadings : undefined}
+                gasReadings={baseGasReadings.length > 0 ? baseGasReadings : undefined}
                 onBarClick={handleDrillDown}
+                timeZone={utilityTimeZone}
               />
 
               {/* NEM True-Up Tracker */}
@@ -1259,30 +1952,80 @@ const App: React.FC = () => {
                     <div className="bg-white/70 rounded-2xl p-4 text-center">
                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">True-Up Credits</p>
                       <p className="text-xl font-black text-green-600">${Math.abs(Math.min(0, nemTrueUp.trueUpBalance)).toFixed(0)}</p>
-                      <p className="text-[9px] text-slate-400 mt-0.5">delivery net credit</p>
+                      <p className="text-[9px] text-slate-400 mt-0.5">
+                        {nemTrueUp.netSurplusCompensation > 0.5
+                          ? `+$${nemTrueUp.netSurplusCompensation.toFixed(0)} Net Surplus Compensation`
+                          : 'delivery net credit'}
+                      </p>
                     </div>
                   </div>
 
+                  {/* NEM 2 vs Net Billing Tariff */}
+                  {netBilling && (
+                    <div className="bg-white/70 rounded-2xl p-4 mb-6">
+                      <div className="flex items-center justify-between mb-3">
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">NEM 2 vs Net Billing (NEM 3.0)</p>
+                        <p className="text-[9px] text-slate-400 font-medium">{netBilling.months.length} months</p>
+                      </div>
+                      <div className="grid grid-cols-3 gap-4 text-center">
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">NEM 2 Total</p>
+                          <p className="text-lg font-black text-slate-900">${nemTrueUp.annualCost.toFixed(0)}</p>
+                          <p className="text-[9px] text-slate-400 mt-0.5">exports at retail rate</p>
+                        </div>
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Net Billing Total</p>
+                          <p className="text-lg font-black text-slate-900">${netBilling.totalStatements.toFixed(0)}</p>
+                          <p className="text-[9px] text-slate-400 mt-0.5">${netBilling.totalExportCredit.toFixed(0)} export credits</p>
+                        </div>
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Difference</p>
+                          <p className={`text-lg font-black ${netBilling.totalStatements > nemTrueUp.annualCost ? 'text-red-500' : 'text-green-600'}`}>
+                            {netBilling.totalStatements > nemTrueUp.annualCost ? '+' : '−'}${Math.abs(netBilling.totalStatements - nemTrueUp.annualCost).toFixed(0)}
+                          </p>
+                          <p className="text-[9px] text-slate-400 mt-0.5">Net Billing vs NEM 2</p>
+                        </div>
+                      </div>
+                      {netBilling.trueUps.some(t => t.unusedCredit > 0.5) && (
+                        <p className="text-[10px] text-amber-600 font-medium mt-3">
+                          ${netBilling.trueUps.reduce((s, t) => s + t.unusedCredit, 0).toFixed(0)} of Net Billing export credit is left unused at true-up (credits only offset energy charges).
+                        </p>
+                      )}
+                      {netBilling.approximateRates && (
+                        <p className="text-[10px] text-slate-400 font-medium mt-2">
+                          Export credits use {netBilling.tableName}: illustrative hourly values, not the utility's published export rates. Treat the Net Billing total as an estimate.
+                        </p>
+                      )}
+                      {netBilling.channelsInferred && (
+                        <p className="text-[10px] text-slate-400 font-medium mt-2">
+                          This file has net usage only, so exports are inferred from net-negative intervals. Upload a file with separate import/export channels for exact Net Billing credits.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Month-by-month table */}
                   <div className="bg-white/70 rounded-2xl overflow-hidden">
-                    <div className={`grid px-4 py-2 border-b border-yellow-100 ${nemTrueUp.hasDeliveryRates ? 'grid-cols-5' : 'grid-cols-4'}`}>
+                    <div className={`grid px-4 py-2 border-b border-yellow-100 ${nemTableCols}`}>
                       <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Month</span>
                       <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">Net kWh</span>
-                      {nemTrueUp.hasDeliveryRates && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">Delivery</span>}
+                      {nemTrueUp.isCca && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">Delivery</span>}
                       <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">Statement</span>
                       <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">True-Up Balance</span>
+                      {netBilling && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">NBT Statement</span>}
                     </div>
                     {[...nemTrueUp.months].reverse().map((m, i) => {
-                      const [year, mo] = m.monthName.split('-');
+                      const [year, mo] = m.month.split('-');
                       const label = new Date(+year, +mo - 1, 1).toLocaleDateString([], { month: 'short', year: '2-digit' });
                       const isNetExport = m.deliveryCost < 0;
+                      const nbtMonth = netBilling?.months.find(n => n.monthName === m.monthName);
                       return (
-                        <div key={i} className={`grid px-4 py-2.5 border-b border-yellow-50 last:border-0 ${nemTrueUp.hasDeliveryRates ? 'grid-cols-5' : 'grid-cols-4'} ${isNetExport ? 'bg-green-50/50' : ''}`}>
+                        <div key={i} className={`grid px-4 py-2.5 border-b border-yellow-50 last:border-0 ${nemTableCols} ${isNetExport ? 'bg-green-50/50' : ''}`}>
                           <span className="text-xs font-bold text-slate-700">{label}</span>
                           <span className={`text-xs font-bold text-right ${m.usage < 0 ? 'text-green-600' : 'text-slate-600'}`}>
                             {m.usage < 0 ? '−' : ''}{Math.abs(m.usage).toFixed(0)}
                           </span>
-                          {nemTrueUp.hasDeliveryRates && (
+                          {nemTrueUp.isCca && (
                             <span className={`text-xs font-bold text-right ${isNetExport ? 'text-green-600' : 'text-slate-600'}`}>
                               {isNetExport ? '−$' : '$'}{Math.abs(m.deliveryCost).toFixed(0)}
                             </span>
@@ -1293,16 +2036,23 @@ const App: React.FC = () => {
                           <span className={`text-xs font-black text-right ${m.runningBalance > 0 ? 'text-red-500' : 'text-green-600'}`}>
                             {m.runningBalance > 0 ? '+' : ''}${m.runningBalance.toFixed(0)}
                           </span>
+                          {netBilling && (
+                            <span className="text-xs font-bold text-slate-700 text-right" title={nbtMonth ? `${nbtMonth.exportKwh.toFixed(0)} kWh exported · $${nbtMonth.exportCredit.toFixed(2)} credit` : undefined}>
+                              {nbtMonth ? `$${nbtMonth.statementAmount.toFixed(0)}` : '—'}
+                            </span>
+                          )}
                         </div>
                       );
                     })}
                   </div>
 
                   <p className="text-[10px] text-slate-400 font-medium mt-4">
-                    {nemTrueUp.hasDeliveryRates
-                      ? `⚡ Generation + gas paid monthly. Delivery accrues to True-Up at anniversary. PCIA modeled at $${(currentTariff.pciaRate ?? 0).toFixed(3)}/kWh (varies by enrollment vintage — check page 2 of your PG&E bill). MCE Storage Credit not modeled (if enrolled, ~−$12/mo — enter as monthlyCredit on tariff).`
+                    {nemTrueUp.isCca
+                      ? `⚡ Generation + gas paid monthly. Delivery accrues to True-Up at anniversary. PCIA modeled at $${getPciaRate(currentTariff, customerProfile).toFixed(3)}/kWh (${pciaVintage ? `${pciaVintage} vintage` : 'varies by enrollment vintage — check page 2 of your PG&E bill'}). MCE Storage Credit not modeled (if enrolled, ~−$12/mo — enter as monthlyCredit on tariff).`
                       : '⚡ True-Up settles the full 12-month net at your anniversary date. Add delivery rate data to your tariff for MCE-accurate split.'
                     }
+                    {nemTrueUp.totalClimateCredits > 0 && ` Climate Credit of $${(nemTrueUp.totalClimateCredits / nemTrueUp.months.filter(m => m.climateCredit > 0).length).toFixed(2)} applied to April and October statements.`}
+                    {nemTrueUp.netSurplusCompensation > 0 && ` Net surplus of ${nemTrueUp.periods.reduce((s, p) => s + p.netSurplusKwh, 0).toFixed(0)} kWh is paid as Net Surplus Compensation (~$${NEM_NSC_RATE.toFixed(3)}/kWh); leftover dollar credits are forfeited at True-Up.`}
                   </p>
                 </div>
               )}
@@ -1389,7 +2139,8 @@ const App: React.FC = () => {
                           <div className="flex-1">
                             <p className="text-[10px] font-black text-green-700 uppercase tracking-widest">Gas Savings from Electrification</p>
                             <p className="text-sm text-slate-700">
-                              Replacing <strong>{gasSavings.appliances.join(', ')}</strong> saves ~<strong>{gasSavings.monthlyThermsOffset} therms/mo</strong>
+                              Replacing <strong>{gasSavings.appliances.join(', ')}</strong> saves ~<strong>{gasSavings.monthlyThermsOffset.toFixed(0)} therms/mo</strong>
+                              {gasConversion && ' — sized from your gas data, priced at your marginal tier'}
                             </p>
                           </div>
                           <div className="text-right">
@@ -1442,7 +2193,7 @@ const App: React.FC = () => {
                       <button 
                         onClick={async () => {
                           setIsAnalyzing(true);
-                          setAiAnalysis(await analyzeUsageWithClaude(readings, DEFAULT_TARIFFS, location));
+                          setAiAnalysis(await analyzeUsageWithClaude(analyzedReadings, DEFAULT_TARIFFS, location, utilityTimeZone));
                           setIsAnalyzing(false);
                         }}
                         disabled={isAnalyzing}
@@ -1479,17 +2230,38 @@ const App: React.FC = () => {
                     <tbody className="divide-y divide-slate-50">
                       {(comparisons.find(c => c.tariffId === currentTariff.id)?.breakdown || []).map((row, idx) => {
                         const bestRow = bestTariff?.breakdown.find(b => b.monthName === row.monthName);
-                        const monthParts = row.monthName.split('-');
+                        const monthParts = row.month.split('-');
                         const rowDate = new Date(parseInt(monthParts[0]), parseInt(monthParts[1]) - 1);
-                        const isThisMonth = rowDate.getMonth() === new Date().getMonth() && rowDate.getFullYear() === new Date().getFullYear();
-                        const monthLabel = rowDate.toLocaleString('default', { month: 'long', year: 'numeric' });
+                        const isThisMonth = row.monthName === resolveBillingPeriod(new Date()).key;
+                        // Billing cycles show their read-date range, like the paper bill
+                        const cycleLabel = billingCycles && row.periodStart && row.periodEnd
+                          ? (() => {
+                              const [sy, sm, sd] = row.periodStart!.split('-').map(Number);
+                              const [ey, em, ed] = row.periodEnd!.split('-').map(Number);
+                              return `${new Date(sy, sm - 1, sd).toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${new Date(ey, em - 1, ed).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+                            })()
+                          : null;
+                        const monthLabel = cycleLabel ?? rowDate.toLocaleString('default', { month: 'long', year: 'numeric' });
                         
                         return (
                           <tr key={idx} className={`group hover:bg-slate-50/50 transition-colors ${isThisMonth ? 'bg-blue-50/30' : ''}`}>
                             <td className="py-6 font-bold text-slate-800">
                               {monthLabel} {isThisMonth && <span className="ml-2 text-[8px] bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded uppercase">Ongoing</span>}
+                              {(row.rateVersions?.length ?? 0) > 1 && (
+                                <p className="text-[10px] font-medium text-slate-400 mt-1">
+                                  Prorated: {row.rateVersions!.map(v => `${v.days}d ${v.effectiveBefore ? `rates before ${v.effectiveBefore}` : 'current rates'}`).join(' · ')}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-6 font-medium text-slate-500">
+                              {row.usage.toFixed(1)} kWh
+                              {(row.estimatedUsage ?? 0) !== 0 && <span className="ml-2 text-[10px] text-slate-400">{row.estimatedUsage!.toFixed(0)} est.</span>}
+                              {(row.tierUsage?.length ?? 0) > 0 && (
+                                <p className="text-[10px] font-medium text-slate-400 mt-1">
+                                  {row.tierUsage!.map(t => `${t.name}: ${t.kwh.toFixed(0)} kWh`).join(' · ')}
+                                </p>
+                              )}
                             </td>
-                            <td className="py-6 font-medium text-slate-500">{row.usage.toFixed(1)} kWh</td>
                             <td className="py-6 font-black text-slate-900">${row.cost.toFixed(2)}</td>
                             <td className="py-6 font-black text-green-600">
                               ${bestRow?.cost.toFixed(2)}
@@ -1554,6 +2326,43 @@ const App: React.FC = () => {
                           <div className="flex items-center justify-between"><span className={`text-[10px] font-bold uppercase tracking-widest ${isCurrent ? 'text-blue-400' : 'text-blue-500'}`}>Electricity</span><span className={`text-[11px] font-black ${isCurrent ? 'text-slate-300' : 'text-slate-600'}`}>${c.estimatedMonthlyCost.toFixed(0)}</span></div>
                           {gasComparison && <div className="flex items-center justify-between"><span className={`text-[10px] font-bold uppercase tracking-widest ${isCurrent ? 'text-orange-400' : 'text-orange-500'}`}>Gas</span><span className={`text-[11px] font-black ${isCurrent ? 'text-slate-300' : 'text-slate-600'}`}>${gasComparison.estimatedMonthlyCost.toFixed(0)}</span></div>}
                         </div>
+                        {/* Where the energy charges land: stacked share per TOU period or tier */}
+                        {(() => {
+                          const charged = c.subtotals.filter(s => s.cost > 0);
+                          const totalCharged = charged.reduce((sum, s) => sum + s.cost, 0);
+                          const totalKwh = c.subtotals.reduce((sum, s) => sum + Math.max(0, s.kwh), 0);
+                          if (totalCharged <= 0) return null;
+                          const { energy, fixed, credits, delivery, generation, pcia } = c.components;
+                          return (
+                            <div className={`mt-4 pt-3 border-t ${isCurrent ? 'border-white/10' : 'border-slate-100'}`}>
+                              <div className="flex h-2 rounded-full overflow-hidden mb-2">
+                                {charged.map((s, i) => (
+                                  <div key={s.name} className={SUBTOTAL_COLORS[i % SUBTOTAL_COLORS.length]} style={{ width: `${(s.cost / totalCharged) * 100}%` }} title={s.name}></div>
+                                ))}
+                              </div>
+                              <div className="space-y-0.5">
+                                {charged.map((s, i) => (
+                                  <div key={s.name} className="flex items-center justify-between gap-2">
+                                    <span className="flex items-center gap-1.5 min-w-0 text-[10px] font-medium text-slate-400"><span className={`w-2 h-2 rounded-sm flex-shrink-0 ${SUBTOTAL_COLORS[i % SUBTOTAL_COLORS.length]}`}></span><span className="truncate">{s.name}</span></span>
+                                    <span className={`text-[10px] font-bold whitespace-nowrap ${isCurrent ? 'text-slate-300' : 'text-slate-600'}`}>{totalKwh > 0 ? ((s.kwh / totalKwh) * 100).toFixed(0) : 0}% kWh · {((s.cost / totalCharged) * 100).toFixed(0)}% $</span>
+                                  </div>
+                                ))}
+                              </div>
+                              <p className="text-[9px] font-bold text-slate-400 mt-2">
+                                Energy ${energy.toFixed(0)} · Fixed ${fixed.toFixed(0)}{credits < 0 && ` · Credits −$${Math.abs(credits).toFixed(0)}`}
+                                {delivery != null && generation != null && ` · Delivery $${delivery.toFixed(0)} / Generation $${generation.toFixed(0)}`}
+                                {pcia != null && ` · PCIA $${pcia.toFixed(0)}`}
+                              </p>
+                            </div>
+                          );
+                        })()}
+                        {/* Rates as billed for the customer's income tier */}
+                        <div className={`mt-4 pt-3 border-t space-y-1 ${isCurrent ? 'border-white/10' : 'border-slate-100'}`}>
+                          <div className="flex items-center justify-between"><span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Fixed charge</span><span className={`text-[11px] font-black ${isCurrent ? 'text-slate-300' : 'text-slate-600'}`}>${c.fixedMonthlyCharge.toFixed(2)}/mo</span></div>
+                          {c.volumetricRates.map(r => (
+                            <div key={r.name} className="flex items-center justify-between gap-2"><span className="text-[10px] font-medium text-slate-400 truncate">{r.name}</span><span className={`text-[11px] font-bold whitespace-nowrap ${isCurrent ? 'text-slate-300' : 'text-slate-600'}`}>{(r.rate * 100).toFixed(1)}¢{r.summerRate !== r.rate && ` · ${(r.summerRate * 100).toFixed(1)}¢ summer`}</span></div>
+                          ))}
+                        </div>
                       </div>
                       <button onClick={() => setCurrentTariff(t)} disabled={isCurrent} className={`w-full mt-6 py-3 rounded-xl font-black uppercase tracking-widest text-xs transition-all ${isCurrent ? 'bg-white/10 text-white/30 pointer-events-none' : `bg-slate-900 text-white ${btnHover} shadow-lg active:scale-95`}`}>{isCurrent ? 'Baseline' : 'Set as Current'}</button>
                     </div>
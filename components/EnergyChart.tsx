@@ -2,42 +2,22 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { CartesianGrid, Tooltip, ResponsiveContainer, Bar, Cell, XAxis, YAxis, ComposedChart, Line } from 'recharts';
 import { EnergyReading, GasReading, TimePeriod, Tariff, TariffPeriod } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE, ZonedParts, getZonedParts, startOfZonedDay, zonedTimeToDate } from '../services/timeZone';
+import { findTariffPeriod, getPeriodClass, getPeriodWindows } from '../services/touSchedule';
+import { getSeason, getSeasonalRate } from '../services/seasons';
 
 type HourType = 'peak' | 'partial-peak' | 'off-peak' | 'flat';
 
-const isSummerMonth = (month: number) => month >= 5 && month <= 8;
-
-const getEffectiveRate = (period: TariffPeriod, month: number): number => {
-  if (period.summerRate != null && isSummerMonth(month)) return period.summerRate;
-  return period.rate;
-};
-
-const classifyHour = (hour: number, tariff: Tariff): HourType => {
+const classifyHour = (parts: ZonedParts, tariff: Tariff): HourType => {
   if (tariff.type === 'flat') return 'flat';
 
-  for (const p of tariff.periods) {
-    const inRange = p.startHour <= p.endHour
-      ? hour >= p.startHour && hour <= p.endHour
-      : hour >= p.startHour || hour <= p.endHour;
-
-    if (inRange) {
-      const name = p.name.toLowerCase();
-      if (name.includes('partial')) return 'partial-peak';
-      if (name.includes('peak') && !name.includes('off')) return 'peak';
-      return 'off-peak';
-    }
-  }
-  return 'off-peak';
+  const p = findTariffPeriod(tariff.periods, parts);
+  return p ? getPeriodClass(p) : 'off-peak';
 };
 
-const getRateForHour = (hour: number, month: number, tariff: Tariff): number => {
-  for (const p of tariff.periods) {
-    const inRange = p.startHour <= p.endHour
-      ? hour >= p.startHour && hour <= p.endHour
-      : hour >= p.startHour || hour <= p.endHour;
-    if (inRange) return getEffectiveRate(p, month);
-  }
-  return getEffectiveRate(tariff.periods[0], month) ?? 0;
+const getRateForHour = (parts: ZonedParts, tariff: Tariff): number => {
+  const p = findTariffPeriod(tariff.periods, parts);
+  return getSeasonalRate(p ?? tariff.periods[0], getSeason(tariff, parts.month, parts.day)) ?? 0;
 };
 
 const hourTypeColor: Record<HourType, string> = {
@@ -60,11 +40,12 @@ interface EnergyChartProps {
   tariff: Tariff;
   gasReadings?: GasReading[];
   onBarClick?: (timestamp: number) => void;
+  timeZone?: string; // utility zone for hour/day/month buckets and labels
 }
 
 type Granularity = '15m' | '1h' | '1d' | '1w' | '1m';
 
-const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gasReadings, onBarClick }) => {
+const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gasReadings, onBarClick, timeZone = DEFAULT_UTILITY_TIME_ZONE }) => {
   const [granularity, setGranularity] = useState<Granularity>('1h');
 
   useEffect(() => {
@@ -76,54 +57,58 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
   // Gas is only meaningful at daily+ granularity
   const showGas = (gasReadings?.length ?? 0) > 0 && (granularity === '1d' || granularity === '1w' || granularity === '1m');
 
+  // Bucket starts are instants; boundaries fall on the utility's wall clock. Hours are floored on the
+  // instant so the repeated fall-back hour stays a separate bar.
   const bucketKey = (ts: Date, gran: Granularity): string => {
-    const d = new Date(ts);
-    if (gran === '15m') return d.getTime().toString();
-    if (gran === '1h') { d.setMinutes(0, 0, 0); return d.getTime().toString(); }
-    if (gran === '1d') { d.setHours(0, 0, 0, 0); return d.getTime().toString(); }
+    const ms = ts.getTime();
+    if (gran === '15m') return ms.toString();
+    const p = getZonedParts(ts, timeZone);
+    if (gran === '1h') return (Math.floor(ms / 60000) * 60000 - p.minute * 60000).toString();
+    if (gran === '1d') return startOfZonedDay(ts, timeZone).getTime().toString();
     if (gran === '1w') {
-      const day = d.getDay();
-      const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-      d.setDate(diff); d.setHours(0, 0, 0, 0); return d.getTime().toString();
+      const mondayOffset = (p.weekday + 6) % 7;
+      return zonedTimeToDate({ year: p.year, monthIndex: p.month, day: p.day - mondayOffset, hours: 0, minutes: 0, seconds: 0 }, timeZone).getTime().toString();
     }
     // '1m'
-    d.setDate(1); d.setHours(0, 0, 0, 0); return d.getTime().toString();
+    return zonedTimeToDate({ year: p.year, monthIndex: p.month, day: 1, hours: 0, minutes: 0, seconds: 0 }, timeZone).getTime().toString();
   };
 
   const chartData = useMemo(() => {
     if (readings.length === 0) return [];
 
     const now = new Date();
-    const map: Record<string, { usage: number; cost: number; rate: number; label: string; hourType: HourType; timestamp: number; isFuture: boolean; gasUsage?: number }> = {};
+    const map: Record<string, { usage: number; estimatedUsage: number; measuredUsage: number; cost: number; rate: number; label: string; hourType: HourType; timestamp: number; isFuture: boolean; gasUsage?: number }> = {};
 
     readings.forEach(r => {
       const key = bucketKey(r.timestamp, granularity);
-      const h = r.timestamp.getHours();
-      const m = r.timestamp.getMonth();
-      const hourType = classifyHour(h, tariff);
-      const rate = getRateForHour(h, m, tariff);
+      const parts = getZonedParts(r.timestamp, timeZone);
+      const h = parts.hour;
+      const hourType = classifyHour(parts, tariff);
+      const rate = getRateForHour(parts, tariff);
       const isFuture = r.timestamp > now;
 
       let label = '';
       if (granularity === '15m') {
-        label = r.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+        label = r.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false, timeZone });
       } else if (granularity === '1h') {
         label = `${h}:00`;
       } else if (granularity === '1d') {
         const d = new Date(parseInt(key));
-        label = d.toLocaleDateString([], { month: 'short', day: 'numeric' });
+        label = d.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone });
       } else if (granularity === '1w') {
         const d = new Date(parseInt(key));
-        label = `Wk of ${d.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+        label = `Wk of ${d.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })}`;
       } else {
         const d = new Date(parseInt(key));
-        label = d.toLocaleString('default', { month: 'short' });
+        label = d.toLocaleString('default', { month: 'short', timeZone });
       }
 
       if (!map[key]) {
-        map[key] = { usage: 0, cost: 0, rate, label, hourType, timestamp: parseInt(key), isFuture };
+        map[key] = { usage: 0, estimatedUsage: 0, measuredUsage: 0, cost: 0, rate, label, hourType, timestamp: parseInt(key), isFuture };
       }
       map[key].usage += r.value;
+      if (r.estimated) map[key].estimatedUsage += r.value;
+      else map[key].measuredUsage += r.value;
       map[key].cost += r.value * rate;
       if (isFuture) map[key].isFuture = true;
     });
@@ -141,7 +126,7 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
     }
 
     return Object.values(map).sort((a, b) => a.timestamp - b.timestamp);
-  }, [readings, granularity, tariff, showGas, gasReadings]);
+  }, [readings, granularity, tariff, showGas, gasReadings, timeZone]);
 
   const availableGranularities = useMemo((): Granularity[] => {
     if (period === 'day') return ['15m', '1h'];
@@ -156,6 +141,8 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
     return Math.max(...chartData.map(d => d.gasUsage ?? 0), 0.1);
   }, [chartData, showGas]);
 
+  const hasEstimated = useMemo(() => chartData.some(d => d.estimatedUsage !== 0), [chartData]);
+
   return (
     <div className="bg-white p-8 rounded-[2.5rem] shadow-sm border border-slate-100 transition-all">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-10">
@@ -253,6 +240,14 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
                           ${data.cost.toFixed(2)}
                         </span>
                       </div>
+                      {data.estimatedUsage !== 0 && (
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                          <span style={{ fontWeight: 700, fontSize: '12px', color: '#64748b' }}>Estimated</span>
+                          <span style={{ fontWeight: 800, fontSize: '13px', color: '#94a3b8' }}>
+                            {data.estimatedUsage.toFixed(3)} kWh
+                          </span>
+                        </div>
+                      )}
                       {data.gasUsage != null && (
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                           <span style={{ fontWeight: 700, fontSize: '12px', color: '#64748b' }}>Gas</span>
@@ -282,8 +277,9 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
             />
             <Bar
               yAxisId="elec"
-              dataKey="usage"
-              radius={[6, 6, 0, 0]}
+              dataKey="measuredUsage"
+              stackId="elec"
+              radius={hasEstimated ? [0, 0, 0, 0] : [6, 6, 0, 0]}
               onClick={(data) => {
                 if (onBarClick && data.timestamp) {
                   onBarClick(data.timestamp);
@@ -298,6 +294,22 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
                 return <Cell key={`cell-${index}`} fill={color} fillOpacity={opacity} />;
               })}
             </Bar>
+            {/* Imputed intervals stack on top of measured usage in a neutral tone */}
+            {hasEstimated && (
+              <Bar
+                yAxisId="elec"
+                dataKey="estimatedUsage"
+                stackId="elec"
+                radius={[6, 6, 0, 0]}
+                fill="#94a3b8"
+                fillOpacity={0.45}
+                onClick={(data) => {
+                  if (onBarClick && data.timestamp) {
+                    onBarClick(data.timestamp);
+                  }
+                }}
+              />
+            )}
             {showGas && (
               <Line
                 yAxisId="gas"
@@ -316,22 +328,27 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
 
       <div className="mt-8 flex flex-wrap justify-center gap-x-8 gap-y-4 border-t border-slate-50 pt-6">
          {tariff.type !== 'flat' && (() => {
-           const hasPeak = tariff.periods.some(p => {
-             const n = p.name.toLowerCase();
-             return n.includes('peak') && !n.includes('off') && !n.includes('partial');
-           });
-           const hasPartialPeak = tariff.periods.some(p => p.name.toLowerCase().includes('partial'));
-           const peakPeriod = tariff.periods.find(p => {
-             const n = p.name.toLowerCase();
-             return n.includes('peak') && !n.includes('off') && !n.includes('partial');
-           });
-           const partialPeakPeriods = tariff.periods.filter(p => p.name.toLowerCase().includes('partial'));
-
-           const formatHour = (h: number) => {
-             if (h === 0) return '12 AM';
-             if (h === 12) return '12 PM';
-             return h < 12 ? `${h} AM` : `${h - 12} PM`;
+           const isPartial = (p: TariffPeriod) => getPeriodClass(p) === 'partial-peak';
+           const isPeak = (p: TariffPeriod) => getPeriodClass(p) === 'peak';
+           const hasPeak = tariff.periods.some(isPeak);
+           const hasPartialPeak = tariff.periods.some(isPartial);
+           const peakPeriod = tariff.periods.find(isPeak);
+           const partialPeakPeriods = tariff.periods.filter(isPartial);
+           // Day-type qualifier for periods that don't apply every day, e.g. " weekdays"
+           const formatDays = (p: TariffPeriod) => p.days
+             ? ` ${p.days.map(d => d === 'holiday' ? 'holidays' : `${d}s`).join('/')}`
+             : '';
+
+           const formatMinute = (m: number) => {
+             const h = Math.floor(m / 60) % 24;
+             const mm = m % 60 ? `:${String(m % 60).padStart(2, '0')}` : '';
+             if (h === 0) return `12${mm} AM`;
+             if (h === 12) return `12${mm} PM`;
+             return h < 12 ? `${h}${mm} AM` : `${h - 12}${mm} PM`;
            };
+           const formatWindows = (p: TariffPeriod) => getPeriodWindows(p)
+             .map(w => `${formatMinute(w.startMinute)}-${formatMinute(w.endMinute)}`)
+             .join(', ');
 
            return (
              <>
@@ -339,7 +356,7 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
                  <div className="flex items-center gap-2">
                    <div className="w-3 h-3 bg-rose-500 rounded-md"></div>
                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
-                     Peak ({formatHour(peakPeriod.startHour)}-{formatHour(peakPeriod.endHour + 1)})
+                     Peak ({formatWindows(peakPeriod)}{formatDays(peakPeriod)})
                    </span>
                  </div>
                )}
@@ -347,7 +364,7 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
                  <div className="flex items-center gap-2">
                    <div className="w-3 h-3 bg-amber-500 rounded-md"></div>
                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
-                     Partial-Peak ({partialPeakPeriods.map(p => `${formatHour(p.startHour)}-${formatHour(p.endHour + 1)}`).join(', ')})
+                     Partial-Peak ({partialPeakPeriods.map(p => `${formatWindows(p)}${formatDays(p)}`).join(', ')})
                    </span>
                  </div>
                )}
@@ -364,6 +381,12 @@ const EnergyChart: React.FC<EnergyChartProps> = ({ readings, period, tariff, gas
              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Flat Rate (All Hours)</span>
            </div>
          )}
+         {hasEstimated && (
+           <div className="flex items-center gap-2">
+             <div className="w-3 h-3 bg-slate-400/50 rounded-md"></div>
+             <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Estimated (Imputed)</span>
+           </div>
+         )}
          {showGas && (
            <div className="flex items-center gap-2">
              <div className="w-3 h-1.5 bg-orange-400 rounded-full"></div>
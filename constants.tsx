@@ -1,7 +1,22 @@
 
-import { Tariff, LoadPreset, GasTariff } from './types';
+import { Tariff, LoadPreset, GasTariff, ProviderType, TariffSeason, IncomeTier, CcaProgram, GenerationRate, GenerationVersion } from './types';
+import { composeCcaTariffs } from './services/tariffComposition';
+import { DEFAULT_GAS_RATE_SERIES } from './services/gasRateHistory';
 
-export const DEFAULT_TARIFFS: Tariff[] = [
+// SDG&E summer runs Jun 1–Oct 31 (PG&E and SCE use the default Jun 1–Sep 30)
+const SDGE_SEASONS: TariffSeason[] = [
+  { name: 'summer', start: '06-01' },
+  { name: 'winter', start: '11-01' }
+];
+
+// PG&E Base Services Charge is income-graduated: $24 standard, reduced for CARE and FERA households
+const PGE_BSC_INCOME_TIERS: Tariff['incomeTierCharges'] = {
+  care: { fixedMonthlyCharge: 6 },
+  fera: { fixedMonthlyCharge: 12 }
+};
+
+// Utility-bundled plans. CCA plans (below) reuse their periods, delivery rates and fixed charges.
+const UTILITY_TARIFFS: Tariff[] = [
   // ============ PG&E Bundled Rates — March 2026 ============
   // PG&E restructured ALL residential rates effective March 1, 2026:
   //   - New ~$24/month Base Services Charge (BSC) on every plan
@@ -19,15 +34,17 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     description: 'Standard residential tiered rate. Tier 1 ~31¢, Tier 2 ~38¢. $24/mo BSC.',
     type: 'flat',
     fixedMonthlyCharge: 24,
+    incomeTierCharges: PGE_BSC_INCOME_TIERS,
     provider: 'pge-bundled',
+    // deliveryRate estimated (generation credit ~15¢); delivery was ~7¢ higher before the BSC
     periods: [
-      { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.31, summerRate: 0.33 }
+      { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.31, summerRate: 0.33, deliveryRate: 0.16, deliverySummerRate: 0.17 }
     ],
     rateHistory: [{
       effectiveBefore: '2026-03-01',
       fixedMonthlyCharge: 0,
       periods: [
-        { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.38, summerRate: 0.40 }
+        { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.38, summerRate: 0.40, deliveryRate: 0.23, deliverySummerRate: 0.24 }
       ]
     }]
   },
@@ -37,17 +54,19 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     description: 'Standard TOU. Peak 4–9 PM daily. $24/mo BSC.',
     type: 'tou',
     fixedMonthlyCharge: 24,
+    incomeTierCharges: PGE_BSC_INCOME_TIERS,
     provider: 'pge-bundled',
+    // deliveryRate estimated from the same generation/delivery split as EV2-A
     periods: [
-      { name: 'Peak', startHour: 16, endHour: 20, rate: 0.39, summerRate: 0.48 },
-      { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.32, summerRate: 0.40 }
+      { name: 'Peak', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.39, summerRate: 0.48, deliveryRate: 0.20, deliverySummerRate: 0.24 },
+      { name: 'Off-Peak', periodClass: 'off-peak', startHour: 21, endHour: 15, rate: 0.32, summerRate: 0.40, deliveryRate: 0.17, deliverySummerRate: 0.22 }
     ],
     rateHistory: [{
       effectiveBefore: '2026-03-01',
       fixedMonthlyCharge: 0,
       periods: [
-        { name: 'Peak', startHour: 16, endHour: 20, rate: 0.46, summerRate: 0.55 },
-        { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.39, summerRate: 0.47 }
+        { name: 'Peak', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.46, summerRate: 0.55, deliveryRate: 0.27, deliverySummerRate: 0.31 },
+        { name: 'Off-Peak', periodClass: 'off-peak', startHour: 21, endHour: 15, rate: 0.39, summerRate: 0.47, deliveryRate: 0.24, deliverySummerRate: 0.29 }
       ]
     }]
   },
@@ -57,22 +76,21 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     description: 'Best for EV owners. Cheapest overnight. $24/mo BSC. Mar 2026 rates confirmed.',
     type: 'tou',
     fixedMonthlyCharge: 24,
+    incomeTierCharges: PGE_BSC_INCOME_TIERS,
     provider: 'pge-bundled',
     // deliveryRate = PG&E delivery-only component (estimated ~6¢ lower after BSC split)
     periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.41, summerRate: 0.54, deliveryRate: 0.155, deliverySummerRate: 0.225 },
-      { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.39, summerRate: 0.43, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.39, summerRate: 0.43, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.23, summerRate: 0.23, deliveryRate: 0.065, deliverySummerRate: 0.055 }
+      { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.41, summerRate: 0.54, deliveryRate: 0.155, deliverySummerRate: 0.225 },
+      { name: 'Partial-Peak (3-4 PM, 9 PM-12 AM)', periodClass: 'partial-peak', windows: [{ startMinute: 900, endMinute: 960 }, { startMinute: 1260, endMinute: 1440 }], rate: 0.39, summerRate: 0.43, deliveryRate: 0.140, deliverySummerRate: 0.155 },
+      { name: 'Off-Peak (12 AM-3 PM)', periodClass: 'off-peak', startHour: 0, endHour: 14, rate: 0.23, summerRate: 0.23, deliveryRate: 0.065, deliverySummerRate: 0.055 }
     ],
     rateHistory: [{
       effectiveBefore: '2026-03-01',
       fixedMonthlyCharge: 0,
       periods: [
-        { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.486, summerRate: 0.61, deliveryRate: 0.220, deliverySummerRate: 0.295 },
-        { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.469, summerRate: 0.50, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.469, summerRate: 0.50, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.300, summerRate: 0.30, deliveryRate: 0.130, deliverySummerRate: 0.120 }
+        { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.486, summerRate: 0.61, deliveryRate: 0.220, deliverySummerRate: 0.295 },
+        { name: 'Partial-Peak (3-4 PM, 9 PM-12 AM)', periodClass: 'partial-peak', windows: [{ startMinute: 900, endMinute: 960 }, { startMinute: 1260, endMinute: 1440 }], rate: 0.469, summerRate: 0.50, deliveryRate: 0.200, deliverySummerRate: 0.215 },
+        { name: 'Off-Peak (12 AM-3 PM)', periodClass: 'off-peak', startHour: 0, endHour: 14, rate: 0.300, summerRate: 0.30, deliveryRate: 0.130, deliverySummerRate: 0.120 }
       ]
     }]
   },
@@ -82,146 +100,25 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     description: 'For electrified homes. Lower per-kWh peak rates. $24/mo BSC (was $15). Estimated.',
     type: 'tou',
     fixedMonthlyCharge: 24,
+    incomeTierCharges: PGE_BSC_INCOME_TIERS,
     provider: 'pge-bundled',
     // E-ELEC rates estimated: same ~7¢ reduction as EV2-A. Verify against your bill.
     periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.35, summerRate: 0.48 },
-      { name: 'Partial-Peak', startHour: 15, endHour: 15, rate: 0.30, summerRate: 0.37 },
-      { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.30, summerRate: 0.37 },
-      { name: 'Off-Peak', startHour: 0, endHour: 14, rate: 0.23, summerRate: 0.27 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 15,
-      periods: [
-        { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.42, summerRate: 0.55 },
-        { name: 'Partial-Peak', startHour: 15, endHour: 15, rate: 0.37, summerRate: 0.44 },
-        { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.37, summerRate: 0.44 },
-        { name: 'Off-Peak', startHour: 0, endHour: 14, rate: 0.30, summerRate: 0.34 }
-      ]
-    }]
-  },
-
-  // ============ MCE Light Green + PG&E Delivery — March 2026 ============
-  // Combined rates (MCE generation + PG&E delivery). MCE generation unchanged;
-  // PG&E delivery dropped ~7¢/kWh with new $24/mo BSC (same charge for MCE customers).
-  // MCE also proposed 14% generation rate reduction effective April 2026 — not yet reflected.
-  // PCIA modeled at $0.021/kWh (varies by enrollment vintage).
-  {
-    id: 'mce-e1',
-    name: 'MCE Light Green E-1',
-    description: 'MCE 60% renewable + PG&E delivery. Tiered. $24/mo BSC.',
-    type: 'flat',
-    fixedMonthlyCharge: 24,
-    provider: 'mce-pge',
-    pciaRate: 0.021,
-    periods: [
-      { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.30, summerRate: 0.32 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 0,
-      periods: [
-        { name: 'Baseline Average', startHour: 0, endHour: 23, rate: 0.37, summerRate: 0.39 }
-      ]
-    }]
-  },
-  {
-    id: 'mce-tou-c',
-    name: 'MCE Light Green TOU-C',
-    description: 'MCE 60% renewable + PG&E delivery. Peak 4-9 PM. $24/mo BSC.',
-    type: 'tou',
-    fixedMonthlyCharge: 24,
-    provider: 'mce-pge',
-    pciaRate: 0.021,
-    periods: [
-      { name: 'Peak', startHour: 16, endHour: 20, rate: 0.37, summerRate: 0.46 },
-      { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.31, summerRate: 0.38 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 0,
-      periods: [
-        { name: 'Peak', startHour: 16, endHour: 20, rate: 0.44, summerRate: 0.53 },
-        { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.38, summerRate: 0.45 }
-      ]
-    }]
-  },
-  {
-    id: 'mce-ev2a',
-    name: 'MCE Light Green EV2-A',
-    description: 'MCE 60% renewable + PG&E delivery. Best for EV. $24/mo BSC.',
-    type: 'tou',
-    fixedMonthlyCharge: 24,
-    provider: 'mce-pge',
-    pciaRate: 0.021,
-    // deliveryRate = PG&E delivery-only component (estimated ~6¢ lower after BSC split)
-    periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.416, summerRate: 0.52, deliveryRate: 0.155, deliverySummerRate: 0.225 },
-      { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.399, summerRate: 0.41, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.399, summerRate: 0.41, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.23, summerRate: 0.21, deliveryRate: 0.065, deliverySummerRate: 0.055 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 0,
-      periods: [
-        { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.486, summerRate: 0.59, deliveryRate: 0.220, deliverySummerRate: 0.295 },
-        { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.469, summerRate: 0.48, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.469, summerRate: 0.48, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.300, summerRate: 0.28, deliveryRate: 0.130, deliverySummerRate: 0.120 }
-      ]
-    }]
-  },
-  {
-    id: 'mce-e-elec',
-    name: 'MCE Light Green E-ELEC',
-    description: 'MCE 60% renewable + PG&E delivery. Electrified homes. $24/mo BSC.',
-    type: 'tou',
-    fixedMonthlyCharge: 24,
-    provider: 'mce-pge',
-    pciaRate: 0.021,
-    periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.33, summerRate: 0.46 },
-      { name: 'Partial-Peak', startHour: 15, endHour: 15, rate: 0.28, summerRate: 0.35 },
-      { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.28, summerRate: 0.35 },
-      { name: 'Off-Peak', startHour: 0, endHour: 14, rate: 0.21, summerRate: 0.25 }
+      { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.35, summerRate: 0.48, deliveryRate: 0.17, deliverySummerRate: 0.22 },
+      { name: 'Partial-Peak (3-4 PM, 9 PM-12 AM)', periodClass: 'partial-peak', windows: [{ startMinute: 900, endMinute: 960 }, { startMinute: 1260, endMinute: 1440 }], rate: 0.30, summerRate: 0.37, deliveryRate: 0.15, deliverySummerRate: 0.18 },
+      { name: 'Off-Peak', periodClass: 'off-peak', startHour: 0, endHour: 14, rate: 0.23, summerRate: 0.27, deliveryRate: 0.10, deliverySummerRate: 0.11 }
     ],
     rateHistory: [{
       effectiveBefore: '2026-03-01',
       fixedMonthlyCharge: 15,
       periods: [
-        { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.40, summerRate: 0.53 },
-        { name: 'Partial-Peak', startHour: 15, endHour: 15, rate: 0.35, summerRate: 0.42 },
-        { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.35, summerRate: 0.42 },
-        { name: 'Off-Peak', startHour: 0, endHour: 14, rate: 0.28, summerRate: 0.32 }
+        { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.42, summerRate: 0.55, deliveryRate: 0.24, deliverySummerRate: 0.29 },
+        { name: 'Partial-Peak (3-4 PM, 9 PM-12 AM)', periodClass: 'partial-peak', windows: [{ startMinute: 900, endMinute: 960 }, { startMinute: 1260, endMinute: 1440 }], rate: 0.37, summerRate: 0.44, deliveryRate: 0.22, deliverySummerRate: 0.25 },
+        { name: 'Off-Peak', periodClass: 'off-peak', startHour: 0, endHour: 14, rate: 0.30, summerRate: 0.34, deliveryRate: 0.17, deliverySummerRate: 0.18 }
       ]
     }]
   },
 
-  // ============ MCE Deep Green (100% Renewable) ============
-  // Deep Green adds $0.0125/kWh premium on all usage vs Light Green.
-  {
-    id: 'mce-deep-tou-c',
-    name: 'MCE Deep Green TOU-C',
-    description: 'MCE 100% renewable + PG&E delivery. +$0.0125/kWh vs Light Green. $24/mo BSC.',
-    type: 'tou',
-    fixedMonthlyCharge: 24,
-    provider: 'mce-pge',
-    pciaRate: 0.021,
-    periods: [
-      { name: 'Peak', startHour: 16, endHour: 20, rate: 0.383, summerRate: 0.473 },
-      { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.323, summerRate: 0.393 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 0,
-      periods: [
-        { name: 'Peak', startHour: 16, endHour: 20, rate: 0.453, summerRate: 0.543 },
-        { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.393, summerRate: 0.463 }
-      ]
-    }]
-  },
   // ============ SCE Rates (approx. Jan 2026 — verify against your SCE bill) ============
   {
     id: 'sce-domestic',
@@ -243,8 +140,8 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     fixedMonthlyCharge: 0,
     provider: 'sce-bundled',
     periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.40, summerRate: 0.52 },
-      { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.30, summerRate: 0.27 }
+      { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.40, summerRate: 0.52 },
+      { name: 'Off-Peak', periodClass: 'off-peak', startHour: 21, endHour: 15, rate: 0.30, summerRate: 0.27 }
     ]
   },
   {
@@ -255,14 +152,16 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     fixedMonthlyCharge: 0,
     provider: 'sce-bundled',
     periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.42, summerRate: 0.53 },
-      { name: 'Off-Peak (8 AM-4 PM)', startHour: 8, endHour: 15, rate: 0.26, summerRate: 0.27 },
-      { name: 'Super Off-Peak (9 PM-8 AM)', startHour: 21, endHour: 7, rate: 0.13, summerRate: 0.13 }
+      { name: 'Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, days: ['weekday'], rate: 0.42, summerRate: 0.53 },
+      { name: 'Mid-Peak (weekends 4-9 PM)', periodClass: 'partial-peak', startHour: 16, endHour: 20, days: ['weekend', 'holiday'], rate: 0.36, summerRate: 0.40 },
+      { name: 'Off-Peak (8 AM-4 PM)', periodClass: 'off-peak', startHour: 8, endHour: 15, rate: 0.26, summerRate: 0.27 },
+      { name: 'Super Off-Peak (9 PM-8 AM)', periodClass: 'off-peak', startHour: 21, endHour: 7, rate: 0.13, summerRate: 0.13 }
     ]
   },
 
   // ============ SDG&E Rates (approx. Jan 2026 — verify against your SDG&E bill) ============
   // SDG&E has the highest electricity rates in CA — roughly 20-30% above PG&E.
+  // Summer = Jun-Oct, Winter = Nov-May.
   {
     id: 'sdge-dr',
     name: 'SDG&E DR (Tiered)',
@@ -270,9 +169,16 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     type: 'tiered',
     fixedMonthlyCharge: 0,
     provider: 'sdge-bundled',
-    tier2Multiplier: 1.48,
+    seasons: SDGE_SEASONS,
+    // SDG&E publishes explicit $/kWh per tier rather than a multiple of Tier 1
     periods: [
-      { name: 'Baseline', startHour: 0, endHour: 23, rate: 0.29, summerRate: 0.31 }
+      {
+        name: 'Baseline', startHour: 0, endHour: 23, rate: 0.29, summerRate: 0.31,
+        tiers: [
+          { name: 'Tier 1 (up to 130% of baseline)', threshold: 130, rate: 0.29, summerRate: 0.31 },
+          { name: 'Tier 2', rate: 0.43, summerRate: 0.46 }
+        ]
+      }
     ]
   },
   {
@@ -282,53 +188,105 @@ export const DEFAULT_TARIFFS: Tariff[] = [
     type: 'tou',
     fixedMonthlyCharge: 0,
     provider: 'sdge-bundled',
+    seasons: SDGE_SEASONS,
     periods: [
-      { name: 'On-Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.47, summerRate: 0.62 },
-      { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.32, summerRate: 0.34 }
+      { name: 'On-Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.47, summerRate: 0.62 },
+      { name: 'Off-Peak', periodClass: 'off-peak', startHour: 21, endHour: 15, rate: 0.32, summerRate: 0.34 }
     ]
   },
   {
     id: 'sdge-ev-tou',
     name: 'SDG&E EV-TOU',
-    description: 'For EV owners. Super off-peak midnight–6 AM at ~$0.14/kWh.',
+    description: 'For EV owners. Super off-peak midnight–6 AM (until 2 PM weekends and holidays) at ~$0.14/kWh.',
     type: 'tou',
     fixedMonthlyCharge: 0,
     provider: 'sdge-bundled',
+    seasons: SDGE_SEASONS,
     periods: [
-      { name: 'On-Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.47, summerRate: 0.62 },
-      { name: 'Off-Peak', startHour: 6, endHour: 15, rate: 0.32, summerRate: 0.34 },
-      { name: 'Super Off-Peak (midnight-6 AM)', startHour: 21, endHour: 5, rate: 0.14, summerRate: 0.14 }
+      { name: 'On-Peak (4-9 PM)', periodClass: 'peak', startHour: 16, endHour: 20, rate: 0.47, summerRate: 0.62 },
+      { name: 'Off-Peak', periodClass: 'off-peak', startHour: 6, endHour: 15, days: ['weekday'], rate: 0.32, summerRate: 0.34 },
+      { name: 'Super Off-Peak (weekends until 2 PM)', periodClass: 'off-peak', startHour: 6, endHour: 13, days: ['weekend', 'holiday'], rate: 0.14, summerRate: 0.14 },
+      { name: 'Off-Peak (weekends 2-4 PM)', periodClass: 'off-peak', startHour: 14, endHour: 15, days: ['weekend', 'holiday'], rate: 0.32, summerRate: 0.34 },
+      { name: 'Super Off-Peak (midnight-6 AM)', periodClass: 'off-peak', startHour: 21, endHour: 5, rate: 0.14, summerRate: 0.14 }
     ]
+  }
+];
+
+// ============ MCE + PG&E Delivery — March 2026 ============
+// MCE generation on PG&E delivery. MCE generation mostly unchanged by PG&E's March 2026
+// restructuring (EV2-A moved ~½¢, see history below); the delivery side (and the $24/mo BSC, same for MCE customers) comes from the PG&E plan.
+// MCE also proposed 14% generation rate reduction effective April 2026 — not yet reflected.
+// PCIA by vintage is approximate — check page 2 of your PG&E bill for your vintage and rate.
+const MCE_PCIA_BY_VINTAGE: Record<string, number> = {
+  '2009': 0.021,
+  '2013': 0.022,
+  '2016': 0.024,
+  '2019': 0.026,
+  '2023': 0.027
+};
+
+// MCE Light Green (60% renewable) generation $/kWh, by PG&E plan and period
+const MCE_LIGHT_GREEN_GENERATION: Record<string, Record<string, GenerationRate>> = {
+  'pge-e1': {
+    'Baseline Average': { rate: 0.14, summerRate: 0.15 }
+  },
+  'pge-tou-c': {
+    'Peak': { rate: 0.17, summerRate: 0.22 },
+    'Off-Peak': { rate: 0.14, summerRate: 0.16 }
+  },
+  'pge-ev2a': {
+    'Peak (4-9 PM)': { rate: 0.261, summerRate: 0.295 },
+    'Partial-Peak (3-4 PM, 9 PM-12 AM)': { rate: 0.259, summerRate: 0.255 },
+    'Off-Peak (12 AM-3 PM)': { rate: 0.165, summerRate: 0.155 }
   },
+  'pge-e-home': {
+    'Peak (4-9 PM)': { rate: 0.16, summerRate: 0.24 },
+    'Partial-Peak (3-4 PM, 9 PM-12 AM)': { rate: 0.13, summerRate: 0.17 },
+    'Off-Peak': { rate: 0.11, summerRate: 0.14 }
+  }
+};
+
+// Generation rates billed before the current ones, by PG&E plan
+const MCE_LIGHT_GREEN_GENERATION_HISTORY: Record<string, GenerationVersion[]> = {
+  'pge-ev2a': [{
+    effectiveBefore: '2026-03-01',
+    generation: {
+      'Peak (4-9 PM)': { rate: 0.266, summerRate: 0.295 },
+      'Partial-Peak (3-4 PM, 9 PM-12 AM)': { rate: 0.269, summerRate: 0.265 },
+      'Off-Peak (12 AM-3 PM)': { rate: 0.170, summerRate: 0.160 }
+    }
+  }]
+};
 
+export const CCA_PROGRAMS: CcaProgram[] = [
   {
-    id: 'mce-deep-ev2a',
-    name: 'MCE Deep Green EV2-A',
-    description: 'MCE 100% renewable + PG&E delivery. Eco-conscious EV. $24/mo BSC.',
-    type: 'tou',
-    fixedMonthlyCharge: 24,
+    name: 'MCE Light Green',
     provider: 'mce-pge',
-    pciaRate: 0.021,
-    // deliveryRate = same PG&E delivery as Light Green (only MCE generation premium differs)
-    periods: [
-      { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.429, summerRate: 0.533, deliveryRate: 0.155, deliverySummerRate: 0.225 },
-      { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.412, summerRate: 0.423, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.412, summerRate: 0.423, deliveryRate: 0.140, deliverySummerRate: 0.155 },
-      { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.243, summerRate: 0.223, deliveryRate: 0.065, deliverySummerRate: 0.055 }
-    ],
-    rateHistory: [{
-      effectiveBefore: '2026-03-01',
-      fixedMonthlyCharge: 0,
-      periods: [
-        { name: 'Peak (4-9 PM)', startHour: 16, endHour: 20, rate: 0.499, summerRate: 0.603, deliveryRate: 0.220, deliverySummerRate: 0.295 },
-        { name: 'Partial-Peak (3-4 PM, 9-12 AM)', startHour: 15, endHour: 15, rate: 0.482, summerRate: 0.493, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Partial-Peak Night', startHour: 21, endHour: 23, rate: 0.482, summerRate: 0.493, deliveryRate: 0.200, deliverySummerRate: 0.215 },
-        { name: 'Off-Peak (12 AM-3 PM)', startHour: 0, endHour: 14, rate: 0.313, summerRate: 0.293, deliveryRate: 0.130, deliverySummerRate: 0.120 }
-      ]
-    }]
+    pciaByVintage: MCE_PCIA_BY_VINTAGE,
+    defaultVintage: '2009',
+    plans: [
+      { id: 'mce-e1', name: 'MCE Light Green E-1', description: 'MCE 60% renewable + PG&E delivery. Tiered. $24/mo BSC.', deliveryTariffId: 'pge-e1', generation: MCE_LIGHT_GREEN_GENERATION['pge-e1'] },
+      { id: 'mce-tou-c', name: 'MCE Light Green TOU-C', description: 'MCE 60% renewable + PG&E delivery. Peak 4-9 PM. $24/mo BSC.', deliveryTariffId: 'pge-tou-c', generation: MCE_LIGHT_GREEN_GENERATION['pge-tou-c'] },
+      { id: 'mce-ev2a', name: 'MCE Light Green EV2-A', description: 'MCE 60% renewable + PG&E delivery. Best for EV. $24/mo BSC.', deliveryTariffId: 'pge-ev2a', generation: MCE_LIGHT_GREEN_GENERATION['pge-ev2a'], generationHistory: MCE_LIGHT_GREEN_GENERATION_HISTORY['pge-ev2a'] },
+      { id: 'mce-e-elec', name: 'MCE Light Green E-ELEC', description: 'MCE 60% renewable + PG&E delivery. Electrified homes. $24/mo BSC.', deliveryTariffId: 'pge-e-home', generation: MCE_LIGHT_GREEN_GENERATION['pge-e-home'] }
+    ]
+  },
+  // Deep Green (100% renewable) adds $0.0125/kWh premium on all usage vs Light Green
+  {
+    name: 'MCE Deep Green',
+    provider: 'mce-pge',
+    premium: 0.0125,
+    pciaByVintage: MCE_PCIA_BY_VINTAGE,
+    defaultVintage: '2009',
+    plans: [
+      { id: 'mce-deep-tou-c', name: 'MCE Deep Green TOU-C', description: 'MCE 100% renewable + PG&E delivery. +$0.0125/kWh vs Light Green. $24/mo BSC.', deliveryTariffId: 'pge-tou-c', generation: MCE_LIGHT_GREEN_GENERATION['pge-tou-c'] },
+      { id: 'mce-deep-ev2a', name: 'MCE Deep Green EV2-A', description: 'MCE 100% renewable + PG&E delivery. Eco-conscious EV. $24/mo BSC.', deliveryTariffId: 'pge-ev2a', generation: MCE_LIGHT_GREEN_GENERATION['pge-ev2a'], generationHistory: MCE_LIGHT_GREEN_GENERATION_HISTORY['pge-ev2a'] }
+    ]
   }
 ];
 
+export const DEFAULT_TARIFFS: Tariff[] = [...UTILITY_TARIFFS, ...composeCcaTariffs(UTILITY_TARIFFS, CCA_PROGRAMS)];
+
 export const UTILITY_PARTNERS = [
   { name: 'PG&E', region: 'Northern/Central California' },
   { name: 'MCE (Marin Clean Energy)', region: 'Marin, Napa, Solano, Contra Costa' },
@@ -336,9 +294,32 @@ export const UTILITY_PARTNERS = [
   { name: 'SDG&E', region: 'San Diego' }
 ];
 
+// Utility billing time zone — TOU periods, billing months and seasons follow the utility's wall clock
+export const PROVIDER_TIME_ZONES: Record<ProviderType, string> = {
+  'pge-bundled': 'America/Los_Angeles',
+  'mce-pge': 'America/Los_Angeles',
+  'sce-bundled': 'America/Los_Angeles',
+  'sdge-bundled': 'America/Los_Angeles'
+};
+
+// California Climate Credit on residential electric bills (2025 amounts, credited each April and October)
+export const PROVIDER_CLIMATE_CREDITS: Record<ProviderType, number> = {
+  'pge-bundled': 58.23,
+  'mce-pge': 58.23,
+  'sce-bundled': 50.00,
+  'sdge-bundled': 61.17
+};
+
+// Income tiers for the income-graduated fixed charge, as labelled on the bill
+export const INCOME_TIER_LABELS: Record<IncomeTier, string> = {
+  standard: 'Standard',
+  fera: 'FERA',
+  care: 'CARE'
+};
+
 // ============ PG&E Gas Tariff ============
 // Gas rates are simpler - tiered based on baseline allocation
-// Baseline varies by climate zone (using Bay Area average)
+// Baseline varies by territory and season (see services/gasBaselines)
 export const DEFAULT_GAS_TARIFF: GasTariff = {
   id: 'pge-g1',
   name: 'PG&E G-1 (Residential Gas)',
@@ -346,12 +327,14 @@ export const DEFAULT_GAS_TARIFF: GasTariff = {
   // Rates verified against Dec 2025 actual bill (Zone X, Baseline Territory X):
   //   Tier 1 Dec: $2.82657 + $0.14324 PPP = $2.970/therm
   //   Tier 2 Dec: $3.34043 + $0.14324 PPP = $3.484/therm
-  //   Baseline: 2.00 therms/day in winter (Zone X) → ~60 therms/month
+  //   Baseline: 2.00 therms/day in winter on-peak (Territory X) → ~60 therms/month
   //   No separate fixed monthly charge on bill
+  // Other months are priced from the monthly procurement/transportation series (data/gasRates.csv)
   baselineRate: 2.97,
   overBaselineRate: 3.48,
-  baselineTherms: 60,
-  fixedMonthlyCharge: 0
+  baselineUtility: 'pge',
+  fixedMonthlyCharge: 0,
+  rateHistory: DEFAULT_GAS_RATE_SERIES['pge-g1']
 };
 
 // ============ SoCalGas Tariff (for SCE / SDG&E territory) ============
@@ -363,8 +346,9 @@ export const SOCALGAS_TARIFF: GasTariff = {
   // Approximate rates — verify against your SoCalGas bill
   baselineRate: 1.20,
   overBaselineRate: 1.80,
-  baselineTherms: 40, // ~40 therms/month winter baseline (Zone 3 approx.)
-  fixedMonthlyCharge: 0
+  baselineUtility: 'socalgas',
+  fixedMonthlyCharge: 0,
+  rateHistory: DEFAULT_GAS_RATE_SERIES['socalgas-g1']
 };
 
 // Detect utility provider from lat/lon coordinates (approximate — edge cases may be wrong)
@@ -419,7 +403,8 @@ export const LOAD_PRESETS: LoadPreset[] = [
     ],
     seasonalMultiplier: [1.8, 0.4, 1.5, 0.5], // High winter/summer, low spring/fall
     replacesGasTherms: 35,  // Average monthly gas furnace usage
-    replacesGasAppliance: 'gas furnace'
+    replacesGasAppliance: 'gas furnace',
+    gasEndUse: 'spaceHeating'
   },
   {
     id: 'heat-pump-water',
@@ -435,7 +420,8 @@ export const LOAD_PRESETS: LoadPreset[] = [
     ],
     seasonalMultiplier: [1.3, 1.0, 0.8, 1.0], // Higher in winter
     replacesGasTherms: 20,  // Average monthly gas water heater usage
-    replacesGasAppliance: 'gas water heater'
+    replacesGasAppliance: 'gas water heater',
+    gasEndUse: 'waterHeating'
   },
   {
     id: 'pool-pump',
@@ -479,7 +465,8 @@ export const LOAD_PRESETS: LoadPreset[] = [
     ],
     seasonalMultiplier: [1.1, 1.0, 0.9, 1.0],
     replacesGasTherms: 3,  // Average monthly gas stove usage
-    replacesGasAppliance: 'gas stove'
+    replacesGasAppliance: 'gas stove',
+    gasEndUse: 'cooking'
   },
   {
     id: 'hot-tub',
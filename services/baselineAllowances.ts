@@ -0,0 +1,100 @@
+import { BaselineTable, BaselineUtility, CustomerProfile, ProviderType, Tariff } from '../types';
+import { SUMMER_SEASON, getSeason } from './seasons';
+
+// Tiered-rate baselines. Tier 1 covers a daily kWh allowance that depends on the customer's
+// baseline territory, whether the home is all-electric or on Medical Baseline, and the tariff's
+// season for each day; the allowance for a billing period is the sum over the days it covers.
+
+// Daily quantities from each utility's baseline schedule (approx. 2025 — verify on your bill)
+export const BASELINE_TABLES: Record<BaselineUtility, BaselineTable> = {
+  pge: {
+    name: 'PG&E Baseline Territory',
+    defaultTerritory: 'X',
+    medicalKwhPerDay: 16.438,
+    territories: {
+      P: { basic: { summer: 13.5, winter: 11.0 }, allElectric: { summer: 15.2, winter: 26.0 } },
+      Q: { basic: { summer: 9.8, winter: 11.0 }, allElectric: { summer: 8.5, winter: 26.0 } },
+      R: { basic: { summer: 17.7, winter: 10.4 }, allElectric: { summer: 19.9, winter: 26.7 } },
+      S: { basic: { summer: 15.0, winter: 10.2 }, allElectric: { summer: 17.8, winter: 23.7 } },
+      T: { basic: { summer: 6.5, winter: 7.5 }, allElectric: { summer: 7.1, winter: 12.9 } },
+      V: { basic: { summer: 7.1, winter: 8.1 }, allElectric: { summer: 10.4, winter: 19.1 } },
+      W: { basic: { summer: 19.2, winter: 9.8 }, allElectric: { summer: 22.4, winter: 19.0 } },
+      X: { basic: { summer: 9.8, winter: 9.7 }, allElectric: { summer: 8.5, winter: 14.6 } },
+      Y: { basic: { summer: 10.5, winter: 11.1 }, allElectric: { summer: 12.0, winter: 24.0 } },
+      Z: { basic: { summer: 5.9, winter: 7.8 }, allElectric: { summer: 6.7, winter: 15.7 } }
+    }
+  },
+  sce: {
+    name: 'SCE Baseline Zone',
+    defaultTerritory: '10',
+    medicalKwhPerDay: 16.5,
+    territories: {
+      '5': { basic: { summer: 17.2, winter: 18.0 }, allElectric: { summer: 15.1, winter: 36.5 } },
+      '6': { basic: { summer: 11.2, winter: 10.1 }, allElectric: { summer: 9.8, winter: 18.8 } },
+      '8': { basic: { summer: 12.4, winter: 10.1 }, allElectric: { summer: 11.5, winter: 18.9 } },
+      '9': { basic: { summer: 15.5, winter: 10.5 }, allElectric: { summer: 14.3, winter: 20.5 } },
+      '10': { basic: { summer: 17.6, winter: 11.3 }, allElectric: { summer: 16.3, winter: 24.3 } },
+      '13': { basic: { summer: 23.0, winter: 12.1 }, allElectric: { summer: 24.6, winter: 25.9 } },
+      '14': { basic: { summer: 19.6, winter: 12.3 }, allElectric: { summer: 21.2, winter: 26.5 } },
+      '15': { basic: { summer: 44.6, winter: 10.4 }, allElectric: { summer: 46.3, winter: 18.8 } },
+      '16': { basic: { summer: 16.0, winter: 15.4 }, allElectric: { summer: 15.3, winter: 34.4 } }
+    }
+  },
+  sdge: {
+    name: 'SDG&E Climate Zone',
+    defaultTerritory: 'coastal',
+    medicalKwhPerDay: 16.438,
+    territories: {
+      coastal: { basic: { summer: 9.0, winter: 9.2 }, allElectric: { summer: 7.6, winter: 12.2 } },
+      inland: { basic: { summer: 11.4, winter: 10.4 }, allElectric: { summer: 9.9, winter: 14.1 } },
+      mountain: { basic: { summer: 15.2, winter: 13.3 }, allElectric: { summer: 14.1, winter: 20.9 } },
+      desert: { basic: { summer: 17.4, winter: 10.9 }, allElectric: { summer: 12.3, winter: 12.6 } }
+    }
+  }
+};
+
+// Baseline schedule each provider's tariffs bill under (CCA customers keep the utility's territory)
+export const PROVIDER_BASELINE_UTILITY: Record<ProviderType, BaselineUtility> = {
+  'pge-bundled': 'pge',
+  'mce-pge': 'pge',
+  'sce-bundled': 'sce',
+  'sdge-bundled': 'sdge'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getBaselineTable = (tariff: Tariff): BaselineTable =>
+  BASELINE_TABLES[PROVIDER_BASELINE_UTILITY[tariff.provider ?? 'pge-bundled']];
+
+// Territory from the customer profile when it belongs to this tariff's utility, else the default
+export const resolveBaselineTerritory = (table: BaselineTable, customer: CustomerProfile = {}): string =>
+  customer.baselineTerritory && table.territories[customer.baselineTerritory]
+    ? customer.baselineTerritory
+    : table.defaultTerritory;
+
+export const getDailyBaseline = (tariff: Tariff, month: number, day: number, customer: CustomerProfile = {}): number => {
+  const table = getBaselineTable(tariff);
+  const territory = table.territories[resolveBaselineTerritory(table, customer)];
+  const allowance = customer.allElectric ? territory.allElectric : territory.basic;
+  const seasonal = getSeason(tariff, month, day) === SUMMER_SEASON ? allowance.summer : allowance.winter;
+  // Medical Baseline adds a fixed daily allowance on top of the territory quantity
+  return seasonal + (customer.medicalBaseline ? table.medicalKwhPerDay : 0);
+};
+
+// Tier 1 allowance (kWh) for a billing period of `days` days starting on `startDay` (YYYY-MM-DD,
+// utility-local). Each day gets its own season's allowance, so cycles spanning a season change mix both.
+export const getBaselineAllowanceKwh = (
+  tariff: Tariff,
+  startDay: string,
+  days: number,
+  customer: CustomerProfile = {}
+): number => {
+  const [y, m, d] = startDay.split('-').map(Number);
+  const start = Date.UTC(y, m - 1, d, 12);
+  let total = 0;
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start + i * DAY_MS);
+    total += getDailyBaseline(tariff, date.getUTCMonth(), date.getUTCDate(), customer);
+  }
+  return total;
+};
@@ -0,0 +1,90 @@
+import { BaselineUtility, ProviderType } from '../types';
+import { PROVIDER_BASELINE_UTILITY } from './baselineAllowances';
+import bundledTaxTable from '../data/billTaxes.json';
+
+// Taxes, surcharges and franchise fees. These sit on top of the tariff charges and don't change
+// which rate is cheapest, so they're kept out of the tariff calculators and applied to the bill.
+// Items come from the utility (e.g. the state energy surcharge), the provider (e.g. the franchise
+// fee surcharge PG&E collects from CCA customers) and the city (utility users tax). Percentage
+// items apply to charges after CARE/FERA discounts; per-unit items to kWh drawn from the grid
+// (not net of solar exports) or therms consumed.
+
+export type TaxFuel = 'electric' | 'gas';
+
+export interface TaxItem {
+  name: string;
+  fuel: TaxFuel;
+  basis: 'percent' | 'perUnit'; // percent of charges, or $ per kWh (electric) / therm (gas)
+  rate: number;
+}
+
+export interface TaxTable {
+  name: string;
+  source?: string;
+  utilities: Partial<Record<BaselineUtility, TaxItem[]>>;
+  providers: Partial<Record<ProviderType, TaxItem[]>>;
+  cities: Record<string, { utility: BaselineUtility; items: TaxItem[] }>;
+}
+
+export interface TaxLine {
+  name: string;
+  amount: number;
+}
+
+const parseItems = (raw: unknown, where: string): TaxItem[] => {
+  if (!Array.isArray(raw)) throw new Error(`Tax table ${where} must be a list of items.`);
+  return raw.map((item, i) => {
+    const { name, fuel, basis, rate } = (item ?? {}) as Partial<TaxItem>;
+    if (typeof name !== 'string' || (fuel !== 'electric' && fuel !== 'gas')
+      || (basis !== 'percent' && basis !== 'perUnit') || typeof rate !== 'number' || !Number.isFinite(rate)) {
+      throw new Error(`Tax table ${where} item ${i + 1} needs a name, fuel ("electric"/"gas"), basis ("percent"/"perUnit") and numeric rate.`);
+    }
+    return { name, fuel, basis, rate };
+  });
+};
+
+// Validate a parsed tax table (bundled JSON or a user-edited copy)
+export const loadTaxTable = (raw: unknown): TaxTable => {
+  const doc = raw as Partial<TaxTable> | null;
+  if (!doc || typeof doc !== 'object') throw new Error('Tax table must be an object.');
+
+  const utilities: TaxTable['utilities'] = {};
+  for (const [utility, items] of Object.entries(doc.utilities ?? {})) {
+    utilities[utility as BaselineUtility] = parseItems(items, `utility "${utility}"`);
+  }
+  const providers: TaxTable['providers'] = {};
+  for (const [provider, items] of Object.entries(doc.providers ?? {})) {
+    providers[provider as ProviderType] = parseItems(items, `provider "${provider}"`);
+  }
+  const cities: TaxTable['cities'] = {};
+  for (const [city, entry] of Object.entries(doc.cities ?? {})) {
+    if (!entry || typeof entry.utility !== 'string') throw new Error(`Tax table city "${city}" needs a utility.`);
+    cities[city] = { utility: entry.utility, items: parseItems(entry.items, `city "${city}"`) };
+  }
+  return { name: String(doc.name ?? 'Custom taxes'), source: doc.source, utilities, providers, cities };
+};
+
+export const DEFAULT_TAX_TABLE: TaxTable = loadTaxTable(bundledTaxTable);
+
+// Cities in the table served by the provider's utility
+export const getTaxCities = (table: TaxTable, provider: ProviderType): string[] =>
+  Object.keys(table.cities).filter(city => table.cities[city].utility === PROVIDER_BASELINE_UTILITY[provider]).sort();
+
+// Line items for one fuel; a city outside the provider's territory contributes nothing
+export const getTaxItems = (table: TaxTable, provider: ProviderType, city: string | null, fuel: TaxFuel): TaxItem[] => {
+  const utility = PROVIDER_BASELINE_UTILITY[provider];
+  const cityEntry = city ? table.cities[city] : undefined;
+  return [
+    ...(table.utilities[utility] ?? []),
+    ...(table.providers[provider] ?? []),
+    ...(cityEntry?.utility === utility ? cityEntry.items : [])
+  ].filter(item => item.fuel === fuel);
+};
+
+// Amount of each item for a bill with `charges` dollars (after discounts) and `units` imported kWh or therms.
+// Credits aren't taxed: net-export bills and negative usage contribute nothing.
+export const calculateTaxLines = (items: TaxItem[], charges: number, units: number): TaxLine[] =>
+  items.map(item => ({
+    name: item.name,
+    amount: item.basis === 'percent' ? Math.max(0, charges) * item.rate : Math.max(0, units) * item.rate
+  }));
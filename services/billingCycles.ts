@@ -0,0 +1,95 @@
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts } from './timeZone';
+
+// Billing periods. Paper bills cover meter-read cycles (roughly 27–33 days ending on the read
+// date), not calendar months. Without a cycle schedule, periods fall back to calendar months.
+
+export interface BillingPeriod {
+  key: string;      // breakdown key: "YYYY-MM" for a calendar month, the read date YYYY-MM-DD for a cycle
+  month: string;    // YYYY-MM statement month — a short cycle can share it with the previous one
+  startDay: string; // YYYY-MM-DD, first day billed (utility-local)
+  endDay: string;   // YYYY-MM-DD, meter read date (inclusive)
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CYCLE_STEP_DAYS = 30;
+const MAX_CYCLE_DAYS = 33;
+
+// Day arithmetic on UTC-noon dates so DST can't shift a day key
+const dayToMs = (day: string): number => {
+  const [y, m, d] = day.split('-').map(Number);
+  return Date.UTC(y, m - 1, d, 12);
+};
+const msToDay = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+
+// Cycle schedule from meter read dates, covering firstDay–lastDay. Outside the known dates (and
+// across gaps longer than a cycle) reads are extrapolated in ~30-day steps.
+export const buildBillingCycles = (readDates: string[], firstDay: string, lastDay: string): BillingPeriod[] => {
+  const known = Array.from(new Set(readDates)).sort().map(dayToMs);
+  if (known.length === 0) return [];
+
+  const ends: number[] = [];
+  for (let e = known[0] - CYCLE_STEP_DAYS * DAY_MS; e >= dayToMs(firstDay); e -= CYCLE_STEP_DAYS * DAY_MS) {
+    ends.unshift(e);
+  }
+  known.forEach((end, i) => {
+    const prev = i > 0 ? known[i - 1] : null;
+    if (prev != null) {
+      const fill: number[] = [];
+      for (let earliest = end; earliest - prev > MAX_CYCLE_DAYS * DAY_MS;) {
+        earliest -= CYCLE_STEP_DAYS * DAY_MS;
+        fill.unshift(earliest);
+      }
+      ends.push(...fill);
+    }
+    ends.push(end);
+  });
+  while (ends[ends.length - 1] < dayToMs(lastDay)) {
+    ends.push(ends[ends.length - 1] + CYCLE_STEP_DAYS * DAY_MS);
+  }
+
+  return ends.map((end, i) => {
+    const start = i > 0 ? ends[i - 1] + DAY_MS : end - (CYCLE_STEP_DAYS - 1) * DAY_MS;
+    const endDay = msToDay(end);
+    return { key: endDay, month: endDay.slice(0, 7), startDay: msToDay(start), endDay, days: Math.round((end - start) / DAY_MS) + 1 };
+  });
+};
+
+// Every utility-local day (YYYY-MM-DD) the period bills
+export const billingPeriodDays = (period: BillingPeriod): string[] => {
+  const start = dayToMs(period.startDay);
+  return Array.from({ length: period.days }, (_, i) => msToDay(start + i * DAY_MS));
+};
+
+// Maps an instant to its billing period — the cycle containing its utility-local day, or the
+// calendar month when no cycles are given.
+export const createBillingPeriodResolver = (
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  cycles?: BillingPeriod[]
+): ((date: Date) => BillingPeriod) => {
+  const byDay = new Map<string, BillingPeriod>();
+  const byMonth = new Map<string, BillingPeriod>();
+
+  return (date: Date) => {
+    const p = getZonedParts(date, timeZone);
+    const monthKey = `${p.year}-${String(p.month + 1).padStart(2, '0')}`;
+
+    if (cycles && cycles.length > 0) {
+      const day = `${monthKey}-${String(p.day).padStart(2, '0')}`;
+      let period = byDay.get(day);
+      if (!period) {
+        period = cycles.find(c => c.endDay >= day) ?? cycles[cycles.length - 1];
+        byDay.set(day, period);
+      }
+      return period;
+    }
+
+    let period = byMonth.get(monthKey);
+    if (!period) {
+      const days = new Date(Date.UTC(p.year, p.month + 1, 0)).getUTCDate();
+      period = { key: monthKey, month: monthKey, startDay: `${monthKey}-01`, endDay: `${monthKey}-${String(days).padStart(2, '0')}`, days };
+      byMonth.set(monthKey, period);
+    }
+    return period;
+  };
+};
@@ -1,9 +1,11 @@
 import { EnergyReading, Tariff } from "../types";
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts } from "./timeZone";
 
 export const analyzeUsageWithClaude = async (
   readings: EnergyReading[],
   tariffs: Tariff[],
-  location: string
+  location: string,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
 ): Promise<string> => {
   const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY || '';
   if (!apiKey) {
@@ -14,7 +16,7 @@ export const analyzeUsageWithClaude = async (
   const totalKWh = readings.reduce((sum, r) => sum + r.value, 0);
   const hourBuckets = new Array(24).fill(0);
   readings.forEach(r => {
-    hourBuckets[r.timestamp.getHours()] += r.value;
+    hourBuckets[getZonedParts(r.timestamp, timeZone).hour] += r.value;
   });
 
   // Calculate percentage of usage in standard peak hours (4-9 PM)
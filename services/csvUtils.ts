@@ -0,0 +1,242 @@
+import { EnergyReading } from '../types';
+import { WallTime, zonedTimeToDate } from './timeZone';
+import { accumulateReading } from './readingChannels';
+
+// Shared CSV helpers for the interval data parsers
+
+export const normalizeHeader = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[()\[\]{}]/g, '')
+    .replace(/[^a-z0-9 ]/g, '');
+
+export const parseCsvRows = (csvText: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const pushCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+
+  const pushRow = () => {
+    // Skip fully empty rows
+    if (row.some(c => c.trim() !== '')) rows.push(row);
+    row = [];
+  };
+
+  const text = csvText.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === '"') {
+      // Escaped quote inside quoted cell: ""
+      if (inQuotes && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+
+    if (!inQuotes && ch === ',') {
+      pushCell();
+      continue;
+    }
+
+    if (!inQuotes && ch === '\n') {
+      pushCell();
+      pushRow();
+      continue;
+    }
+
+    cell += ch;
+  }
+
+  // Flush last cell/row
+  pushCell();
+  pushRow();
+  return rows;
+};
+
+export const parseNumber = (value: unknown): number | null => {
+  const raw = String(value ?? '').trim();
+  if (!raw) return null;
+
+  // Common: "1,234.56", "0.123 kWh", "$12.34"
+  const cleaned = raw.replace(/,/g, '');
+  const match = cleaned.match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+
+  const num = Number(match[0]);
+  return Number.isFinite(num) ? num : null;
+};
+
+export const parseTime = (timeRaw: string): { hours: number; minutes: number; seconds: number } | null => {
+  const t = timeRaw.trim();
+  if (!t) return null;
+
+  // Supports "HH:MM", "HH:MM:SS", "H:MM AM".
+  const m = t.match(/^\s*(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?\s*$/i);
+  if (!m) return null;
+
+  let hours = Number(m[1]);
+  const minutes = Number(m[2] ?? '0');
+  const seconds = Number(m[3] ?? '0');
+  const ampm = (m[4] ?? '').toLowerCase();
+
+  if (minutes > 59 || seconds > 59) return null;
+  if (hours > 24) return null;
+
+  if (ampm) {
+    if (hours < 1 || hours > 12) return null;
+    if (ampm === 'pm' && hours !== 12) hours += 12;
+    if (ampm === 'am' && hours === 12) hours = 0;
+  }
+
+  return { hours, minutes, seconds };
+};
+
+export const parseUsDate = (dateRaw: string): { year: number; monthIndex: number; day: number } | null => {
+  const d = dateRaw.trim();
+  if (!d) return null;
+
+  // YYYY-MM-DD
+  let m = d.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) {
+    const year = Number(m[1]);
+    const monthIndex = Number(m[2]) - 1;
+    const day = Number(m[3]);
+    if (monthIndex < 0 || monthIndex > 11) return null;
+    if (day < 1 || day > 31) return null;
+    return { year, monthIndex, day };
+  }
+
+  // MM/DD/YYYY or M/D/YY
+  m = d.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (m) {
+    const monthIndex = Number(m[1]) - 1;
+    const day = Number(m[2]);
+    let year = Number(m[3]);
+    if (year < 100) year += 2000;
+    if (monthIndex < 0 || monthIndex > 11) return null;
+    if (day < 1 || day > 31) return null;
+    return { year, monthIndex, day };
+  }
+
+  // Some exports: "01-18-2025" (assume MM-DD-YYYY)
+  m = d.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
+  if (m) {
+    const monthIndex = Number(m[1]) - 1;
+    const day = Number(m[2]);
+    const year = Number(m[3]);
+    if (monthIndex < 0 || monthIndex > 11) return null;
+    if (day < 1 || day > 31) return null;
+    return { year, monthIndex, day };
+  }
+
+  return null;
+};
+
+// Maps a printed local date/time to an instant — usually createWallTimeResolver(utilityTimeZone)
+export type WallTimeResolver = (wall: WallTime) => Date;
+
+const defaultResolver: WallTimeResolver = wall => zonedTimeToDate(wall);
+
+export const parseDateTime = (
+  dateRaw: string,
+  timeRaw?: string,
+  resolve: WallTimeResolver = defaultResolver
+): Date | null => {
+  const dateParts = parseUsDate(dateRaw);
+  if (!dateParts) return null;
+
+  let time = { hours: 0, minutes: 0, seconds: 0 };
+  if (timeRaw != null) {
+    const parsedTime = parseTime(timeRaw);
+    if (!parsedTime) return null;
+    time = parsedTime;
+  }
+
+  const dt = resolve({ ...dateParts, ...time });
+  return Number.isFinite(dt.getTime()) ? dt : null;
+};
+
+export const parseSingleDateTimeField = (
+  raw: string,
+  resolve: WallTimeResolver = defaultResolver
+): Date | null => {
+  const s = raw.trim();
+  if (!s) return null;
+
+  // ISO with an explicit offset ("2025-01-01T08:00:00Z", "...-08:00") is already an instant
+  if (/\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(z|[+-]\d{2}:?\d{2})$/i.test(s)) {
+    const abs = new Date(s);
+    if (Number.isFinite(abs.getTime())) return abs;
+  }
+
+  // Common: "2025-01-18 00:15:00", "01/18/2025 00:15" or "01/18/2025 12:15 AM"
+  const m = s.match(/^(.+?)(?:\s+|T)(\d{1,2}(:\d{2})?(:\d{2})?\s*(am|pm)?)$/i);
+  if (m) {
+    const dt = parseDateTime(m[1], m[2], resolve);
+    if (dt) return dt;
+  }
+
+  // Anything else Date can read: take its printed wall-clock fields as utility local time
+  const loose = new Date(s);
+  if (!Number.isFinite(loose.getTime())) return null;
+  return resolve({
+    year: loose.getFullYear(),
+    monthIndex: loose.getMonth(),
+    day: loose.getDate(),
+    hours: loose.getHours(),
+    minutes: loose.getMinutes(),
+    seconds: loose.getSeconds()
+  });
+};
+
+// Sort + sum readings that share an instant (re-exported duplicate rows, or import/export channels
+// being combined). DST fall-back hours resolve to distinct instants, so they are kept separate.
+export const sumByTimestamp = (readings: EnergyReading[]): EnergyReading[] => {
+  const summed = new Map<number, EnergyReading>();
+  for (const r of readings) {
+    const key = r.timestamp.getTime();
+    const existing = summed.get(key);
+    if (existing) {
+      accumulateReading(existing, r);
+    } else {
+      summed.set(key, { ...r, timestamp: new Date(key) });
+    }
+  }
+
+  return Array.from(summed.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Interval size of sorted readings (electric or gas): the median spacing over the first 2000.
+// `fallbackMs` when there are fewer than two readings.
+export const medianIntervalMs = (readings: Array<{ timestamp: Date }>, fallbackMs: number = DEFAULT_INTERVAL_MS): number => {
+  if (readings.length < 2) return fallbackMs;
+  const diffs: number[] = [];
+  for (let i = 1; i < Math.min(readings.length, 2000); i++) {
+    diffs.push(readings[i].timestamp.getTime() - readings[i - 1].timestamp.getTime());
+  }
+  diffs.sort((a, b) => a - b);
+  return diffs[Math.floor(diffs.length / 2)];
+};
+
+// Heuristic: estimate interval size from the median spacing of sorted readings.
+export const detectIntervalWarning = (readings: EnergyReading[]): string | null => {
+  if (readings.length < 3) return null;
+  const minutes = Math.round(medianIntervalMs(readings) / 60000);
+  if (![15, 30, 60].includes(minutes)) {
+    return `Detected ~${minutes} minute intervals (expected 15/30/60). Data may be aggregated.`;
+  }
+  return null;
+};
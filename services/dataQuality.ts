@@ -0,0 +1,237 @@
+import { EnergyReading } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts } from './timeZone';
+import { channelReading, getExportKwh, getImportKwh, hasChannelData } from './readingChannels';
+import { medianIntervalMs } from './csvUtils';
+
+export type ImputationMethod = 'none' | 'profile' | 'linear';
+
+export interface DataGap {
+  start: Date;       // first missing (or zero) interval
+  end: Date;         // last missing (or zero) interval
+  intervals: number; // number of intervals affected
+}
+
+export interface DataSpike {
+  timestamp: Date;
+  value: number;
+  threshold: number;
+}
+
+export interface DataQualityReport {
+  intervalMinutes: number;
+  expectedIntervals: number;
+  missingIntervals: number;
+  gaps: DataGap[];
+  zeroRuns: DataGap[];
+  spikes: DataSpike[];
+  coveragePct: number; // measured intervals / expected intervals
+}
+
+export interface DataQualityOptions {
+  zeroRunMinHours?: number; // consecutive exact-zero readings at least this long are treated as an outage
+  spikeFactor?: number;     // reading is a spike if it exceeds this multiple of the 99th percentile
+}
+
+const DEFAULT_ZERO_RUN_HOURS = 4;
+const DEFAULT_SPIKE_FACTOR = 4;
+
+// Find every gap, zero-run and spike in a sorted series of interval readings.
+export const analyzeDataQuality = (readings: EnergyReading[], options: DataQualityOptions = {}): DataQualityReport => {
+  const zeroRunMinHours = options.zeroRunMinHours ?? DEFAULT_ZERO_RUN_HOURS;
+  const spikeFactor = options.spikeFactor ?? DEFAULT_SPIKE_FACTOR;
+
+  const intervalMs = Math.max(60 * 1000, medianIntervalMs(readings));
+  const intervalMinutes = Math.round(intervalMs / 60000);
+
+  if (readings.length < 2) {
+    return { intervalMinutes, expectedIntervals: readings.length, missingIntervals: 0, gaps: [], zeroRuns: [], spikes: [], coveragePct: 100 };
+  }
+
+  // ---- Gaps: spacing wider than 1.5 intervals ----
+  const gaps: DataGap[] = [];
+  let missingIntervals = 0;
+  for (let i = 1; i < readings.length; i++) {
+    const prev = readings[i - 1].timestamp.getTime();
+    const next = readings[i].timestamp.getTime();
+    if (next - prev > intervalMs * 1.5) {
+      const intervals = Math.round((next - prev) / intervalMs) - 1;
+      gaps.push({
+        start: new Date(prev + intervalMs),
+        end: new Date(next - intervalMs),
+        intervals
+      });
+      missingIntervals += intervals;
+    }
+  }
+
+  // ---- Zero runs: consecutive exact zeros lasting at least zeroRunMinHours ----
+  const zeroRuns: DataGap[] = [];
+  const minZeroIntervals = Math.max(1, Math.round((zeroRunMinHours * 60) / intervalMinutes));
+  let runStart = -1;
+  const closeRun = (endIdx: number) => {
+    if (runStart !== -1 && endIdx - runStart + 1 >= minZeroIntervals) {
+      zeroRuns.push({
+        start: readings[runStart].timestamp,
+        end: readings[endIdx].timestamp,
+        intervals: endIdx - runStart + 1
+      });
+    }
+    runStart = -1;
+  };
+  for (let i = 0; i < readings.length; i++) {
+    if (readings[i].value === 0) {
+      if (runStart === -1) runStart = i;
+    } else {
+      closeRun(i - 1);
+    }
+  }
+  closeRun(readings.length - 1);
+
+  // ---- Spikes: readings far above the 99th percentile of absolute values ----
+  const sortedAbs = readings.map(r => Math.abs(r.value)).sort((a, b) => a - b);
+  const p99 = sortedAbs[Math.min(sortedAbs.length - 1, Math.floor(sortedAbs.length * 0.99))];
+  const threshold = p99 * spikeFactor;
+  const spikes: DataSpike[] = threshold > 0
+    ? readings
+      .filter(r => Math.abs(r.value) > threshold)
+      .map(r => ({ timestamp: r.timestamp, value: r.value, threshold }))
+    : [];
+
+  const expectedIntervals = readings.length + missingIntervals;
+  const zeroIntervals = zeroRuns.reduce((s, z) => s + z.intervals, 0);
+  const coveragePct = ((readings.length - zeroIntervals) / expectedIntervals) * 100;
+
+  return { intervalMinutes, expectedIntervals, missingIntervals, gaps, zeroRuns, spikes, coveragePct };
+};
+
+type ReadingField = (r: EnergyReading) => number;
+
+// Average kWh per interval keyed by weekday + time-of-day slot, built from measured readings only.
+// Slots are utility-local wall-clock times; `pick` selects the net value or one channel.
+const buildWeekdayProfile = (readings: EnergyReading[], excluded: Set<number>, timeZone: string, pick: ReadingField) => {
+  const slotKey = (d: Date) => {
+    const p = getZonedParts(d, timeZone);
+    return `${p.weekday}-${p.hour}-${p.minute}`;
+  };
+  const hourKey = (d: Date) => {
+    const p = getZonedParts(d, timeZone);
+    return `${p.hour}-${p.minute}`;
+  };
+  const bySlot = new Map<string, { sum: number; count: number }>();
+  const byHour = new Map<string, { sum: number; count: number }>();
+  let total = 0;
+
+  readings.forEach((r, i) => {
+    if (excluded.has(i)) return;
+    for (const [map, key] of [[bySlot, slotKey(r.timestamp)], [byHour, hourKey(r.timestamp)]] as const) {
+      const entry = map.get(key) ?? { sum: 0, count: 0 };
+      entry.sum += pick(r);
+      entry.count++;
+      map.set(key, entry);
+    }
+    total += pick(r);
+  });
+  const overall = total / Math.max(1, readings.length - excluded.size);
+
+  return (d: Date): number => {
+    const slot = bySlot.get(slotKey(d));
+    if (slot && slot.count > 0) return slot.sum / slot.count;
+    const hour = byHour.get(hourKey(d));
+    if (hour && hour.count > 0) return hour.sum / hour.count;
+    return overall;
+  };
+};
+
+// Fill gaps (and zero-run outages) using the chosen method. Imputed intervals carry `estimated: true`
+// so the calculator and chart can separate estimated from measured energy. Files with import/export
+// channels get each channel estimated on its own, with the net derived from them.
+export const imputeReadings = (
+  readings: EnergyReading[],
+  report: DataQualityReport,
+  method: ImputationMethod,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): EnergyReading[] => {
+  if (method === 'none' || readings.length < 2) return readings;
+  if (report.gaps.length === 0 && report.zeroRuns.length === 0) return readings;
+
+  const intervalMs = report.intervalMinutes * 60000;
+
+  // Indices of zero-run readings — replaced rather than kept as measured zeros
+  const zeroIdx = new Set<number>();
+  if (report.zeroRuns.length > 0) {
+    let runPtr = 0;
+    readings.forEach((r, i) => {
+      const t = r.timestamp.getTime();
+      while (runPtr < report.zeroRuns.length && report.zeroRuns[runPtr].end.getTime() < t) runPtr++;
+      const run = report.zeroRuns[runPtr];
+      if (run && t >= run.start.getTime() && t <= run.end.getTime()) zeroIdx.add(i);
+    });
+  }
+
+  const fields: ReadingField[] = hasChannelData(readings) ? [getImportKwh, getExportKwh] : [r => r.value];
+  const profiles = method === 'profile'
+    ? fields.map(pick => buildWeekdayProfile(readings, zeroIdx, timeZone, pick))
+    : null;
+
+  // Nearest measured neighbours for linear interpolation
+  const prevMeasured: number[] = new Array(readings.length);
+  const nextMeasured: number[] = new Array(readings.length);
+  let last = -1;
+  for (let i = 0; i < readings.length; i++) {
+    if (!zeroIdx.has(i)) last = i;
+    prevMeasured[i] = last;
+  }
+  last = -1;
+  for (let i = readings.length - 1; i >= 0; i--) {
+    if (!zeroIdx.has(i)) last = i;
+    nextMeasured[i] = last;
+  }
+
+  const estimateField = (fieldIdx: number, ts: Date, beforeIdx: number, afterIdx: number): number => {
+    if (profiles) return profiles[fieldIdx](ts);
+    const pick = fields[fieldIdx];
+    const before = beforeIdx !== -1 ? readings[beforeIdx] : null;
+    const after = afterIdx !== -1 ? readings[afterIdx] : null;
+    if (before && after) {
+      const span = after.timestamp.getTime() - before.timestamp.getTime();
+      const frac = span > 0 ? (ts.getTime() - before.timestamp.getTime()) / span : 0;
+      return pick(before) + (pick(after) - pick(before)) * frac;
+    }
+    const nearest = before ?? after;
+    return nearest ? pick(nearest) : 0;
+  };
+
+  const estimate = (ts: Date, beforeIdx: number, afterIdx: number): EnergyReading => {
+    if (fields.length === 2) {
+      return {
+        ...channelReading(ts, estimateField(0, ts, beforeIdx, afterIdx), estimateField(1, ts, beforeIdx, afterIdx)),
+        estimated: true
+      };
+    }
+    return { timestamp: ts, value: estimateField(0, ts, beforeIdx, afterIdx), estimated: true };
+  };
+
+  const out: EnergyReading[] = [];
+  for (let i = 0; i < readings.length; i++) {
+    const r = readings[i];
+    if (zeroIdx.has(i)) {
+      out.push(estimate(r.timestamp, prevMeasured[i], nextMeasured[i]));
+    } else {
+      out.push(r);
+    }
+
+    const next = readings[i + 1];
+    if (!next) continue;
+    const gapMs = next.timestamp.getTime() - r.timestamp.getTime();
+    if (gapMs <= intervalMs * 1.5) continue;
+    const missing = Math.round(gapMs / intervalMs) - 1;
+    const beforeIdx = zeroIdx.has(i) ? prevMeasured[i] : i;
+    const afterIdx = zeroIdx.has(i + 1) ? nextMeasured[i + 1] : i + 1;
+    for (let k = 1; k <= missing; k++) {
+      const ts = new Date(r.timestamp.getTime() + k * intervalMs);
+      out.push(estimate(ts, beforeIdx, afterIdx));
+    }
+  }
+
+  return out;
+};
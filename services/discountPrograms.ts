@@ -0,0 +1,30 @@
+import { CustomerProfile, IncomeTier } from '../types';
+
+// Low-income discount programs. CARE takes a percentage off eligible electric and gas charges;
+// FERA takes 18% off eligible electric charges only. Medical Baseline adds a daily baseline
+// allowance instead (see services/baselineAllowances).
+//
+// Order on the bill: the discount applies to gross energy charges (before credits for exported
+// kWh) and PCIA. The income-graduated fixed charge is already reduced for CARE/FERA, and
+// non-bypassable charges are not discounted. Taxes and surcharges are computed on the
+// discounted amount.
+
+export interface DiscountProgram {
+  name: string;
+  electricDiscount: number; // fraction off eligible electric charges
+  gasDiscount: number;      // fraction off eligible gas charges
+}
+
+export const DISCOUNT_PROGRAMS: Record<Exclude<IncomeTier, 'standard'>, DiscountProgram> = {
+  care: { name: 'CARE', electricDiscount: 0.35, gasDiscount: 0.20 },
+  fera: { name: 'FERA', electricDiscount: 0.18, gasDiscount: 0 }
+};
+
+export const getDiscountProgram = (customer: CustomerProfile = {}): DiscountProgram | null =>
+  customer.incomeTier && customer.incomeTier !== 'standard' ? DISCOUNT_PROGRAMS[customer.incomeTier] : null;
+
+export const getElectricDiscountRate = (customer: CustomerProfile = {}): number =>
+  getDiscountProgram(customer)?.electricDiscount ?? 0;
+
+export const getGasDiscountRate = (customer: CustomerProfile = {}): number =>
+  getDiscountProgram(customer)?.gasDiscount ?? 0;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Tariff } from '../types';
+import { BillingPeriod } from './billingCycles';
+import { calculateDetailedCost, calculateMonthlyDeliveryCost, compareTariffs } from './energyCalculator';
+import { dailyReadings, singleRateTariff } from './testFixtures';
+
+// January 2025: 10 kWh imported each morning and 4 kWh exported each afternoon (Pacific time)
+const readings = [...dailyReadings(2025, 0, 10), ...dailyReadings(2025, 0, -4, 21)];
+
+const care = { incomeTier: 'care' as const };
+
+describe('CARE/FERA discount', () => {
+  it('comes off gross energy charges, not the net after export credits', () => {
+    const [month] = calculateDetailedCost(readings, singleRateTariff, undefined, care).breakdown;
+
+    const charges = 310 * 0.30;
+    const credits = 124 * 0.30;
+    expect(month.discount).toBeCloseTo(charges * 0.35);
+    expect(month.cost).toBeCloseTo(charges * 0.65 - credits);
+  });
+
+  it('leaves delivery credits for exported kWh undiscounted', () => {
+    const delivery = calculateMonthlyDeliveryCost(readings, singleRateTariff, undefined, undefined, care);
+    expect(delivery['2025-01']).toBeCloseTo(310 * 0.10 * 0.65 - 124 * 0.10);
+
+    const [month] = calculateDetailedCost(readings, singleRateTariff, undefined, care).breakdown;
+    expect(month.components?.delivery).toBeCloseTo(310 * 0.10 * 0.65 - 124 * 0.10);
+  });
+});
+
+describe('PCIA', () => {
+  // A CCA tariff whose PCIA dropped from $0.05 to $0.03 on January 16
+  const ccaTariff: Tariff = {
+    ...singleRateTariff,
+    id: 'test-cca',
+    pciaRate: 0.03,
+    pciaByVintage: { '2020': 0.03 },
+    rateHistory: [{ effectiveBefore: '2025-01-16', periods: singleRateTariff.periods, fixedMonthlyCharge: 0, pciaRate: 0.05 }]
+  };
+
+  it('bills imported kWh at the rate version in effect each day', () => {
+    const [month] = calculateDetailedCost(readings, ccaTariff).breakdown;
+
+    const pcia = 15 * 10 * 0.05 + 16 * 10 * 0.03;
+    expect(month.components?.pcia).toBeCloseTo(pcia);
+    expect(month.cost).toBeCloseTo((310 - 124) * 0.30 + pcia);
+  });
+
+  it('keeps the comparison total equal to the sum of its breakdown', () => {
+    const [bundled, cca] = compareTariffs(readings, 'test-tou', [singleRateTariff, ccaTariff], undefined, care);
+
+    expect(bundled.components.pcia).toBeUndefined();
+    expect(cca.components.pcia).toBeCloseTo((15 * 10 * 0.05 + 16 * 10 * 0.03) * 0.65);
+    expect(cca.totalCost).toBeCloseTo(cca.breakdown.reduce((s, b) => s + b.cost, 0));
+    expect(cca.totalCost - bundled.totalCost).toBeCloseTo(cca.components.pcia ?? 0);
+  });
+});
+
+describe('billing cycles across a rate change', () => {
+  // Rates and the fixed charge both went up on February 1
+  const tariff: Tariff = {
+    ...singleRateTariff,
+    fixedMonthlyCharge: 20,
+    rateHistory: [{
+      effectiveBefore: '2025-02-01',
+      periods: [{ ...singleRateTariff.periods[0], rate: 0.20 }],
+      fixedMonthlyCharge: 10
+    }]
+  };
+  // A 30-day cycle read on February 14: 16 days at the old rates, 14 at the new
+  const cycle: BillingPeriod = { key: '2025-02-14', month: '2025-02', startDay: '2025-01-16', endDay: '2025-02-14', days: 30 };
+  const cycleReadings = [...dailyReadings(2025, 0, 10).slice(15), ...dailyReadings(2025, 1, 10).slice(0, 14)];
+
+  it('prorates the fixed charge by the days under each version', () => {
+    const [bill] = calculateDetailedCost(cycleReadings, tariff, undefined, undefined, [cycle]).breakdown;
+
+    // Each day bills its version's monthly charge / 30.4 days
+    const fixed = (16 * 10 + 14 * 20) / (365 / 12);
+    expect(bill.fixedCharge).toBeCloseTo(fixed);
+    expect(bill.rateVersions).toEqual([
+      { effectiveBefore: '2025-02-01', days: 16, usage: 160 },
+      { effectiveBefore: null, days: 14, usage: 140 }
+    ]);
+    expect(bill.cost).toBeCloseTo(160 * 0.20 + 140 * 0.30 + fixed);
+  });
+});
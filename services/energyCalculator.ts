@@ -1,215 +1,392 @@
 
-import { EnergyReading, Tariff, TariffPeriod, ComparisonResult, MonthlyBreakdown } from '../types';
-
-// PG&E summer = Jun-Sep (months 5-8), winter = Oct-May
-const isSummerMonth = (month: number) => month >= 5 && month <= 8;
-
-const getEffectiveRate = (period: TariffPeriod, month: number): number => {
-  if (period.summerRate != null && isSummerMonth(month)) {
-    return period.summerRate;
-  }
-  return period.rate;
-};
-
-// Resolve the correct rate version for a given date.
-// If tariff has rateHistory, check if the date falls before any version's effectiveBefore cutoff.
-// Returns the matching periods and fixedMonthlyCharge for that date.
-const resolveRateVersion = (tariff: Tariff, date: Date): { periods: TariffPeriod[], fixedMonthlyCharge: number } => {
+import { EnergyReading, Tariff, TariffPeriod, RateVersion, ComparisonResult, MonthlyBreakdown, CustomerProfile, RateVersionShare, UsageSubtotal, CostComponents } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts } from './timeZone';
+import { getExportKwh, getImportKwh } from './readingChannels';
+import { getBaselineAllowanceKwh } from './baselineAllowances';
+import { BillingPeriod, billingPeriodDays, createBillingPeriodResolver } from './billingCycles';
+import { findTariffPeriod } from './touSchedule';
+import { getSeason, getSeasonalDeliveryRate, getSeasonalRate } from './seasons';
+import { getTierRate, getTierSchedule, resolveTierLimits, splitAcrossTiers } from './rateTiers';
+import { getCustomerVolumetricRates, getIncomeTierCharges } from './incomeGraduatedCharges';
+import { getElectricDiscountRate } from './discountPrograms';
+import { getPciaRate, isCcaTariff } from './tariffComposition';
+import { medianIntervalMs } from './csvUtils';
+
+interface ResolvedRateVersion {
+  effectiveBefore: string | null; // null = current rates
+  periods: TariffPeriod[];
+  fixedMonthlyCharge: number;   // for the customer's income tier
+  volumetricAdjustment: number; // $/kWh added to every energy rate for the customer's income tier
+  pciaRate: number;             // $/kWh on imports, at the customer's vintage; 0 for bundled tariffs
+}
+
+// Resolve the correct rate version for a utility-local day (YYYY-MM-DD).
+// If tariff has rateHistory, check if the day falls before any version's effectiveBefore cutoff.
+// Cutoffs are utility-local calendar dates, compared as YYYY-MM-DD strings.
+// CCA customers also pay the utility's PCIA on every imported kWh; a version without its own PCIA
+// keeps the tariff's.
+const resolveRateVersion = (tariff: Tariff, day: string, customer: CustomerProfile): ResolvedRateVersion => {
+  const pciaFor = (version: RateVersion | Tariff): number => {
+    if (!isCcaTariff(tariff)) return 0;
+    return getPciaRate(version.pciaRate != null || version.pciaByVintage != null ? version : tariff, customer);
+  };
   if (tariff.rateHistory) {
     for (const version of tariff.rateHistory) {
-      if (date < new Date(version.effectiveBefore)) {
-        return { periods: version.periods, fixedMonthlyCharge: version.fixedMonthlyCharge };
+      if (day < version.effectiveBefore) {
+        return {
+          effectiveBefore: version.effectiveBefore,
+          periods: version.periods,
+          ...getIncomeTierCharges(version, customer),
+          pciaRate: pciaFor(version)
+        };
       }
     }
   }
   // Default: current rates (in tariff.periods / tariff.fixedMonthlyCharge)
-  return { periods: tariff.periods, fixedMonthlyCharge: tariff.fixedMonthlyCharge };
+  return { effectiveBefore: null, periods: tariff.periods, ...getIncomeTierCharges(tariff, customer), pciaRate: pciaFor(tariff) };
 };
 
-export const calculateDetailedCost = (readings: EnergyReading[], tariff: Tariff): { totalCost: number, breakdown: MonthlyBreakdown[] } => {
-  const periodMap: Record<string, { usage: number, cost: number }> = {};
-  let totalCost = 0;
+// Versions change on day boundaries, so resolve once per day rather than per reading
+const createRateVersionResolver = (tariff: Tariff, timeZone: string, customer: CustomerProfile) => {
+  const byDay = new Map<string, ResolvedRateVersion>();
+  return (date: Date): ResolvedRateVersion => {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    const dayKey = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    let version = byDay.get(dayKey);
+    if (!version) {
+      version = resolveRateVersion(tariff, dayKey, customer);
+      byDay.set(dayKey, version);
+    }
+    return version;
+  };
+};
 
-  // Cache resolved rate versions per month to avoid re-resolving for every reading
-  const rateVersionCache: Record<string, { periods: TariffPeriod[], fixedMonthlyCharge: number }> = {};
+const isTieredTariff = (tariff: Tariff) => tariff.type === 'flat' || tariff.type === 'tiered';
+
+// Fixed charges accrue per day on cycle bills; a calendar month counts as one month. When a rate
+// change lands mid-period, each version's charge is prorated by the days it was in effect.
+const AVG_DAYS_PER_MONTH = 365 / 12;
+const periodFixedCharge = (
+  tariff: Tariff,
+  period: BillingPeriod,
+  byCycle: boolean,
+  customer: CustomerProfile
+): { fixed: number, daysByVersion: Map<string | null, number> } => {
+  const daysByVersion = new Map<string | null, number>();
+  let fixed = 0;
+  for (const day of billingPeriodDays(period)) {
+    const version = resolveRateVersion(tariff, day, customer);
+    daysByVersion.set(version.effectiveBefore, (daysByVersion.get(version.effectiveBefore) ?? 0) + 1);
+    fixed += version.fixedMonthlyCharge / period.days;
+  }
+  return { fixed: byCycle ? fixed * period.days / AVG_DAYS_PER_MONTH : fixed, daysByVersion };
+};
 
-  // Tiered pricing state for E-1 (Simple monthly reset simulation)
-  let monthlyUsageCounter = 0;
-  let currentMonth = -1;
+// Each breakdown entry's cost includes its fixed charge; sum them to split energy from fixed
+const getTotalFixedCharges = (breakdown: MonthlyBreakdown[]): number =>
+  breakdown.reduce((sum, b) => sum + (b.fixedCharge ?? 0), 0);
 
-  readings.forEach(reading => {
-    const date = reading.timestamp;
+const hasDeliveryRates = (tariff: Tariff) => tariff.periods.some(p => p.deliveryRate != null);
 
-    // Period keys for grouping - use padded month for correct sorting
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+const addToSubtotal = (subtotals: Map<string, UsageSubtotal>, name: string, kwh: number, cost: number) => {
+  const entry = subtotals.get(name) ?? { name, kwh: 0, cost: 0 };
+  entry.kwh += kwh;
+  entry.cost += cost;
+  subtotals.set(name, entry);
+};
+
+// Merge per-period subtotals (TOU periods or tiers) across the breakdown, keeping first-seen order
+const sumSubtotals = (breakdown: MonthlyBreakdown[]): UsageSubtotal[] => {
+  const merged = new Map<string, UsageSubtotal>();
+  for (const b of [...breakdown].reverse()) {
+    for (const s of [...(b.tierUsage ?? []), ...(b.touUsage ?? [])]) addToSubtotal(merged, s.name, s.kwh, s.cost);
+  }
+  return Array.from(merged.values());
+};
 
-    // Resolve rate version for this month (cached)
-    if (!rateVersionCache[monthKey]) {
-      rateVersionCache[monthKey] = resolveRateVersion(tariff, date);
+const sumComponents = (breakdown: MonthlyBreakdown[]): CostComponents => {
+  const total: CostComponents = { energy: 0, fixed: 0, credits: 0 };
+  for (const b of breakdown) {
+    if (!b.components) continue;
+    total.energy += b.components.energy;
+    total.fixed += b.components.fixed;
+    total.credits += b.components.credits;
+    if (b.components.pcia != null) total.pcia = (total.pcia ?? 0) + b.components.pcia;
+    if (b.components.delivery != null) {
+      total.delivery = (total.delivery ?? 0) + b.components.delivery;
+      total.generation = (total.generation ?? 0) + (b.components.generation ?? 0);
     }
-    const { periods, fixedMonthlyCharge } = rateVersionCache[monthKey];
+  }
+  return total;
+};
 
-    // Reset tiered usage if month changes
-    if (date.getMonth() !== currentMonth) {
-      monthlyUsageCounter = 0;
-      currentMonth = date.getMonth();
+// All month/hour bucketing uses wall-clock time in the utility's zone, not the browser's.
+// With a billing-cycle schedule, tiers, baselines and fixed charges follow the meter-read cycles
+// and the breakdown has one entry per cycle; otherwise per calendar month.
+export const calculateDetailedCost = (
+  readings: EnergyReading[],
+  tariff: Tariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
+): { totalCost: number, breakdown: MonthlyBreakdown[] } => {
+  const periodMap: Record<string, {
+    usage: number, cost: number, estimatedUsage: number, importKwh: number, exportKwh: number,
+    usageByVersion: Map<string | null, number>,
+    tiers: Map<string, UsageSubtotal>, touPeriods: Map<string, UsageSubtotal>,
+    energy: number, credits: number, delivery: number, deliveryCharges: number, pcia: number
+  }> = {};
+  const periodInfo: Record<string, BillingPeriod> = {};
+
+  const resolvePeriod = createBillingPeriodResolver(timeZone, billingCycles);
+  const byCycle = (billingCycles?.length ?? 0) > 0;
+
+  // Each interval is priced by the rate version in effect on its own day
+  const resolveVersion = createRateVersionResolver(tariff, timeZone, customer);
+  const splitDelivery = hasDeliveryRates(tariff);
+
+  // Tiered pricing state: usage so far this period against the period's baseline allowance
+  const baselineByPeriod: Record<string, number> = {};
+  let periodUsageCounter = 0;
+  let currentPeriodKey = '';
+
+  readings.forEach(reading => {
+    const date = reading.timestamp;
+    const parts = getZonedParts(date, timeZone);
+    const season = getSeason(tariff, parts.month, parts.day);
+    const billingPeriod = resolvePeriod(date);
+    const periodKey = billingPeriod.key;
+    const version = resolveVersion(date);
+    const { periods } = version;
+
+    // Reset tiered usage if the billing period changes
+    if (periodKey !== currentPeriodKey) {
+      periodUsageCounter = 0;
+      currentPeriodKey = periodKey;
     }
 
-    if (!periodMap[monthKey]) {
-      periodMap[monthKey] = { usage: 0, cost: 0 };
+    if (!periodMap[periodKey]) {
+      periodMap[periodKey] = {
+        usage: 0, cost: 0, estimatedUsage: 0, importKwh: 0, exportKwh: 0,
+        usageByVersion: new Map(), tiers: new Map(), touPeriods: new Map(), energy: 0, credits: 0, delivery: 0, deliveryCharges: 0, pcia: 0
+      };
+      periodInfo[periodKey] = billingPeriod;
     }
 
-    let rate = 0;
-    const hour = date.getHours();
-    const month = date.getMonth();
-
-    if (tariff.type === 'flat' || tariff.type === 'tiered') {
-      // PG&E-style tiered pricing with seasonal baseline
-      // Summer (Jun-Sep): ~270 kWh baseline, Winter: ~350 kWh baseline
-      const isSummer = isSummerMonth(month);
-      const baseline = isSummer ? 270 : 350;
-
-      // Use seasonal base rate from resolved periods
-      const baseRate = getEffectiveRate(periods[0], month);
-      // Tier 1: up to baseline at base rate
-      // Tier 2: above baseline at ~1.24x (reflects E-1 Tier 2 at ~47¢ vs Tier 1 ~38¢)
-      if (monthlyUsageCounter < baseline) {
-        rate = baseRate;
-      } else {
-        rate = baseRate * (tariff.tier2Multiplier ?? 1.24);
+    let energyCost = 0;
+    let deliveryRate = 0;
+
+    if (isTieredTariff(tariff)) {
+      // Baseline = territory daily allowance × days in the billing period
+      if (baselineByPeriod[periodKey] == null) {
+        baselineByPeriod[periodKey] = getBaselineAllowanceKwh(tariff, billingPeriod.startDay, billingPeriod.days, customer);
+      }
+      const baseline = baselineByPeriod[periodKey];
+
+      // Tier thresholds apply to usage so far this period; an interval crossing one is split
+      const tierPeriod = periods[0];
+      const tiers = getTierSchedule(tariff, tierPeriod);
+      for (const part of splitAcrossTiers(resolveTierLimits(tiers, baseline), periodUsageCounter, reading.value)) {
+        const tier = tiers[part.tier];
+        const partCost = part.kwh * (getTierRate(tier, tierPeriod, season) + version.volumetricAdjustment);
+        energyCost += partCost;
+        addToSubtotal(periodMap[periodKey].tiers, tier.name, part.kwh, partCost);
       }
+      deliveryRate = getSeasonalDeliveryRate(tierPeriod, season);
     } else {
-      const period = periods.find(p => {
-        if (p.startHour <= p.endHour) {
-          return hour >= p.startHour && hour <= p.endHour;
-        } else {
-          return hour >= p.startHour || hour <= p.endHour;
-        }
-      });
-      rate = period ? getEffectiveRate(period, month) : getEffectiveRate(periods[0], month);
+      const period = findTariffPeriod(periods, parts) ?? periods[0];
+      energyCost = reading.value * (getSeasonalRate(period, season) + version.volumetricAdjustment);
+      addToSubtotal(periodMap[periodKey].touPeriods, period.name, reading.value, energyCost);
+      deliveryRate = getSeasonalDeliveryRate(period, season);
     }
 
-    const energyCost = reading.value * rate;
-    periodMap[monthKey].usage += reading.value;
-    periodMap[monthKey].cost += energyCost;
-    monthlyUsageCounter += reading.value;
-    totalCost += energyCost;
+    periodMap[periodKey].usage += reading.value;
+    periodMap[periodKey].cost += energyCost;
+    // Consumed kWh are energy charges; net-export kWh are credited at the same rates
+    if (energyCost >= 0) periodMap[periodKey].energy += energyCost;
+    else periodMap[periodKey].credits += energyCost;
+    if (splitDelivery) {
+      const deliveryCost = reading.value * (deliveryRate + version.volumetricAdjustment);
+      periodMap[periodKey].delivery += deliveryCost;
+      if (deliveryCost > 0) periodMap[periodKey].deliveryCharges += deliveryCost;
+    }
+    if (reading.estimated) periodMap[periodKey].estimatedUsage += reading.value;
+    periodMap[periodKey].importKwh += getImportKwh(reading);
+    periodMap[periodKey].pcia += getImportKwh(reading) * version.pciaRate;
+    periodMap[periodKey].exportKwh += getExportKwh(reading);
+    const versionUsage = periodMap[periodKey].usageByVersion;
+    versionUsage.set(version.effectiveBefore, (versionUsage.get(version.effectiveBefore) ?? 0) + reading.value);
+    periodUsageCounter += reading.value;
   });
 
+  // CARE/FERA discount comes off gross energy charges, before net-export credits, and off PCIA; the
+  // fixed charge is already income-graduated
+  const discountRate = getElectricDiscountRate(customer);
+  const isCca = isCcaTariff(tariff);
+
   const breakdown: MonthlyBreakdown[] = Object.keys(periodMap).map(key => {
     const data = periodMap[key];
-    const fixed = rateVersionCache[key]?.fixedMonthlyCharge ?? tariff.fixedMonthlyCharge;
+    const discount = data.energy * discountRate;
+    const pcia = data.pcia * (1 - discountRate);
+    const info = periodInfo[key];
+    const credits = data.credits - discount;
+    const delivery = splitDelivery ? data.delivery - data.deliveryCharges * discountRate : undefined;
+    const { fixed, daysByVersion } = periodFixedCharge(tariff, info, byCycle, customer);
+    const rateVersions: RateVersionShare[] = Array.from(daysByVersion, ([effectiveBefore, days]) => ({
+      effectiveBefore,
+      days,
+      usage: data.usageByVersion.get(effectiveBefore) ?? 0
+    }));
     return {
       monthName: key,
+      month: info.month,
       usage: data.usage,
-      cost: data.cost + fixed
+      cost: data.cost - discount + pcia + fixed,
+      fixedCharge: fixed,
+      discount: discountRate > 0 ? discount + data.pcia - pcia : undefined,
+      estimatedUsage: data.estimatedUsage,
+      baselineKwh: baselineByPeriod[key],
+      tierUsage: data.tiers.size > 0 ? Array.from(data.tiers.values()) : undefined,
+      touUsage: data.touPeriods.size > 0 ? Array.from(data.touPeriods.values()) : undefined,
+      components: {
+        energy: data.energy,
+        fixed,
+        credits,
+        delivery,
+        generation: delivery != null ? data.energy + credits - delivery : undefined,
+        pcia: isCca ? pcia : undefined
+      },
+      importKwh: data.importKwh,
+      exportKwh: data.exportKwh,
+      periodStart: info.startDay,
+      periodEnd: info.endDay,
+      days: info.days,
+      rateVersions
     };
   }).sort((a, b) => b.monthName.localeCompare(a.monthName)); // Show newest months first
 
-  const totalFixedCharges = Object.keys(periodMap).reduce((sum, key) => {
-    return sum + (rateVersionCache[key]?.fixedMonthlyCharge ?? tariff.fixedMonthlyCharge);
-  }, 0);
-  const totalWithFixed = totalCost + totalFixedCharges;
+  const totalWithFixed = breakdown.reduce((s, b) => s + b.cost, 0);
 
   return { totalCost: totalWithFixed, breakdown };
 };
 
-// Returns PG&E delivery-only cost per calendar month (for NEM True-Up tracking).
-// Only meaningful for tariffs with deliveryRate defined on periods.
-export const calculateMonthlyDeliveryCost = (readings: EnergyReading[], tariff: Tariff): Record<string, number> => {
+// Returns PG&E delivery-only cost per billing period (for NEM True-Up tracking), keyed like the
+// calculateDetailedCost breakdown. Only meaningful for tariffs with deliveryRate defined on periods.
+// Income-tier rate adjustments are delivery charges, so they land here too, as does the CARE/FERA discount.
+export const calculateMonthlyDeliveryCost = (
+  readings: EnergyReading[],
+  tariff: Tariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  billingCycles?: BillingPeriod[],
+  customer: CustomerProfile = {}
+): Record<string, number> => {
   const monthly: Record<string, number> = {};
-  const rateVersionCache: Record<string, { periods: TariffPeriod[], fixedMonthlyCharge: number }> = {};
+  const resolvePeriod = createBillingPeriodResolver(timeZone, billingCycles);
+  const resolveVersion = createRateVersionResolver(tariff, timeZone, customer);
+  const discountRate = getElectricDiscountRate(customer);
 
   readings.forEach(reading => {
     const date = reading.timestamp;
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-    const hour = date.getHours();
-    const month = date.getMonth();
-
-    // Resolve rate version for this month (cached)
-    if (!rateVersionCache[monthKey]) {
-      rateVersionCache[monthKey] = resolveRateVersion(tariff, date);
-    }
-    const { periods } = rateVersionCache[monthKey];
+    const parts = getZonedParts(date, timeZone);
+    const season = getSeason(tariff, parts.month, parts.day);
+    const monthKey = resolvePeriod(date).key;
+    const { periods, volumetricAdjustment } = resolveVersion(date);
 
-    let dr = 0;
-    if (tariff.type === 'flat' || tariff.type === 'tiered') {
+    let dr = volumetricAdjustment;
+    if (isTieredTariff(tariff)) {
       const p = periods[0];
-      dr = (p.deliverySummerRate != null && isSummerMonth(month)) ? p.deliverySummerRate : (p.deliveryRate ?? 0);
+      dr += getSeasonalDeliveryRate(p, season);
     } else {
-      const period = periods.find(p =>
-        p.startHour <= p.endHour ? (hour >= p.startHour && hour <= p.endHour) : (hour >= p.startHour || hour <= p.endHour)
-      );
+      const period = findTariffPeriod(periods, parts);
       if (period) {
-        dr = (period.deliverySummerRate != null && isSummerMonth(month)) ? period.deliverySummerRate : (period.deliveryRate ?? 0);
+        dr += getSeasonalDeliveryRate(period, season);
       }
     }
 
-    monthly[monthKey] = (monthly[monthKey] ?? 0) + reading.value * dr;
+    // The discount applies to delivery charges, not to credits for exported kWh
+    const cost = reading.value * dr;
+    monthly[monthKey] = (monthly[monthKey] ?? 0) + (cost > 0 ? cost * (1 - discountRate) : cost);
   });
 
   return monthly;
 };
 
-// Returns gross grid consumption per month (sum of POSITIVE readings only).
-// NEM non-bypassable charges apply to every kWh consumed, even in net-export months.
-export const calculateMonthlyGrossConsumption = (readings: EnergyReading[]): Record<string, number> => {
+// Returns gross grid consumption per billing period (import channel, or POSITIVE net readings for
+// net-only files). NEM non-bypassable charges apply to every kWh consumed, even in net-export months.
+export const calculateMonthlyGrossConsumption = (
+  readings: EnergyReading[],
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  billingCycles?: BillingPeriod[]
+): Record<string, number> => {
   const monthly: Record<string, number> = {};
+  const resolvePeriod = createBillingPeriodResolver(timeZone, billingCycles);
   readings.forEach(reading => {
-    if (reading.value > 0) {
-      const d = reading.timestamp;
-      const mk = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-      monthly[mk] = (monthly[mk] ?? 0) + reading.value;
+    const imported = getImportKwh(reading);
+    if (imported > 0) {
+      const mk = resolvePeriod(reading.timestamp).key;
+      monthly[mk] = (monthly[mk] ?? 0) + imported;
     }
   });
   return monthly;
 };
 
-// Helper: extract total fixed charges from breakdown (each month's cost includes its fixed charge)
-// breakdown cost = energy + fixed, and we sum the energy portions from periodMap, so:
-// totalFixed = totalCost - (sum of energy-only costs)
-// But simpler: just sum the per-month fixed charges by resolving rate versions.
-const getTotalFixedCharges = (readings: EnergyReading[], tariff: Tariff): number => {
-  const months = new Set<string>();
-  const rateCache: Record<string, number> = {};
-  readings.forEach(r => {
-    const d = r.timestamp;
-    const mk = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-    if (!months.has(mk)) {
-      months.add(mk);
-      rateCache[mk] = resolveRateVersion(tariff, d).fixedMonthlyCharge;
-    }
-  });
-  return Array.from(months).reduce((sum, mk) => sum + rateCache[mk], 0);
+// Days actually covered by readings. Gaps (missing days, meter outages) don't count, so
+// un-imputed data isn't scaled up as if the missing days had zero usage.
+const getCoveredDays = (readings: EnergyReading[]): number => {
+  if (readings.length < 2) return 0;
+  const intervalMs = medianIntervalMs(readings);
+
+  // Spacing up to 2 intervals (or an hour, for mixed 15/60-minute merges) counts in full
+  const maxStep = Math.max(intervalMs * 2, 60 * 60 * 1000);
+  let coveredMs = intervalMs;
+  for (let i = 1; i < readings.length; i++) {
+    const diff = readings[i].timestamp.getTime() - readings[i - 1].timestamp.getTime();
+    coveredMs += diff <= maxStep ? diff : intervalMs;
+  }
+  return coveredMs / (1000 * 60 * 60 * 24);
 };
 
-export const compareTariffs = (readings: EnergyReading[], currentTariffId: string, allTariffs: Tariff[]): ComparisonResult[] => {
+export const compareTariffs = (
+  readings: EnergyReading[],
+  currentTariffId: string,
+  allTariffs: Tariff[],
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
+): ComparisonResult[] => {
   if (readings.length === 0) return [];
 
   const currentTariff = allTariffs.find(t => t.id === currentTariffId) || allTariffs[0];
-  const currentCalc = calculateDetailedCost(readings, currentTariff);
+  const currentCalc = calculateDetailedCost(readings, currentTariff, timeZone, customer, billingCycles);
 
-  const msInReadings = readings[readings.length - 1].timestamp.getTime() - readings[0].timestamp.getTime();
-  const daysInReadings = Math.max(0.1, msInReadings / (1000 * 60 * 60 * 24));
+  const daysInReadings = Math.max(0.1, getCoveredDays(readings));
   const monthMultiplier = 30 / daysInReadings;
 
   // Separate energy cost from fixed charges for proper scaling
-  const currentTotalFixed = getTotalFixedCharges(readings, currentTariff);
+  const currentTotalFixed = getTotalFixedCharges(currentCalc.breakdown);
   const currentEnergyOnly = currentCalc.totalCost - currentTotalFixed;
   // Use current (latest) fixed charge for monthly estimate going forward
-  const currentMonthlyEstimate = (currentEnergyOnly * monthMultiplier) + currentTariff.fixedMonthlyCharge;
+  const currentMonthlyEstimate = (currentEnergyOnly * monthMultiplier) + getIncomeTierCharges(currentTariff, customer).fixedMonthlyCharge;
 
   return allTariffs.map(t => {
-    const calc = calculateDetailedCost(readings, t);
-    const totalFixed = getTotalFixedCharges(readings, t);
+    const calc = calculateDetailedCost(readings, t, timeZone, customer, billingCycles);
+    const totalFixed = getTotalFixedCharges(calc.breakdown);
     const energyCostOnly = calc.totalCost - totalFixed;
     // Use current (latest) fixed charge for monthly estimate going forward
-    const estimatedMonthlyCost = (energyCostOnly * monthMultiplier) + t.fixedMonthlyCharge;
+    const { fixedMonthlyCharge } = getIncomeTierCharges(t, customer);
+    const estimatedMonthlyCost = (energyCostOnly * monthMultiplier) + fixedMonthlyCharge;
 
     return {
       tariffId: t.id,
       tariffName: t.name,
+      fixedMonthlyCharge,
+      volumetricRates: getCustomerVolumetricRates(t, customer),
+      subtotals: sumSubtotals(calc.breakdown),
+      components: sumComponents(calc.breakdown),
       totalUsage: readings.reduce((s, r) => s + r.value, 0),
+      estimatedUsage: readings.reduce((s, r) => s + (r.estimated ? r.value : 0), 0),
+      totalImportKwh: readings.reduce((s, r) => s + getImportKwh(r), 0),
+      totalExportKwh: readings.reduce((s, r) => s + getExportKwh(r), 0),
       totalCost: calc.totalCost,
       estimatedMonthlyCost,
       savingsVsCurrent: currentMonthlyEstimate - estimatedMonthlyCost,
@@ -0,0 +1,89 @@
+import { CustomerProfile, GasBaselineTable, GasBaselineUtility, GasTariff } from '../types';
+import { getSeason } from './seasons';
+
+// Gas baselines. Like electric baselines, the baseline tier covers a daily allowance that depends
+// on the territory (climate zone) and season, summed over the days a billing period covers. Gas
+// baseline seasons follow heating demand: PG&E splits winter into on-peak (Dec–Jan) and off-peak
+// (Nov, Feb–Mar), so a summer bill gets a fraction of a January allowance.
+
+const PGE_WINTER_ON_PEAK = 'winter-on-peak';
+const PGE_WINTER_OFF_PEAK = 'winter-off-peak';
+
+// Daily quantities from each utility's gas baseline schedule (approx. 2025 — verify on your bill)
+export const GAS_BASELINE_TABLES: Record<GasBaselineUtility, GasBaselineTable> = {
+  pge: {
+    name: 'PG&E Baseline Territory',
+    defaultTerritory: 'X',
+    sharesElectricTerritories: true,
+    medicalThermsPerDay: 0.822,
+    seasons: [
+      { name: PGE_WINTER_OFF_PEAK, start: '02-01' },
+      { name: 'summer', start: '04-01' },
+      { name: PGE_WINTER_OFF_PEAK, start: '11-01' },
+      { name: PGE_WINTER_ON_PEAK, start: '12-01' }
+    ],
+    territories: {
+      P: { summer: 0.59, [PGE_WINTER_OFF_PEAK]: 1.55, [PGE_WINTER_ON_PEAK]: 2.30 },
+      Q: { summer: 0.69, [PGE_WINTER_OFF_PEAK]: 1.48, [PGE_WINTER_ON_PEAK]: 2.20 },
+      R: { summer: 0.43, [PGE_WINTER_OFF_PEAK]: 1.30, [PGE_WINTER_ON_PEAK]: 2.03 },
+      S: { summer: 0.43, [PGE_WINTER_OFF_PEAK]: 1.34, [PGE_WINTER_ON_PEAK]: 2.09 },
+      T: { summer: 0.62, [PGE_WINTER_OFF_PEAK]: 1.62, [PGE_WINTER_ON_PEAK]: 2.13 },
+      V: { summer: 0.72, [PGE_WINTER_OFF_PEAK]: 1.70, [PGE_WINTER_ON_PEAK]: 2.26 },
+      W: { summer: 0.39, [PGE_WINTER_OFF_PEAK]: 1.16, [PGE_WINTER_ON_PEAK]: 1.96 },
+      X: { summer: 0.49, [PGE_WINTER_OFF_PEAK]: 1.48, [PGE_WINTER_ON_PEAK]: 2.00 },
+      Y: { summer: 0.72, [PGE_WINTER_OFF_PEAK]: 1.96, [PGE_WINTER_ON_PEAK]: 2.82 },
+      Z: { summer: 0.66, [PGE_WINTER_OFF_PEAK]: 1.75, [PGE_WINTER_ON_PEAK]: 2.48 }
+    }
+  },
+  socalgas: {
+    name: 'SoCalGas Climate Zone',
+    defaultTerritory: '1',
+    sharesElectricTerritories: false,
+    medicalThermsPerDay: 0.822,
+    seasons: [
+      { name: 'summer', start: '04-01' },
+      { name: 'winter', start: '11-01' }
+    ],
+    territories: {
+      '1': { summer: 0.473, winter: 1.088 },
+      '2': { summer: 0.473, winter: 1.298 },
+      '3': { summer: 0.473, winter: 1.820 }
+    }
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getGasBaselineTable = (tariff: GasTariff): GasBaselineTable => GAS_BASELINE_TABLES[tariff.baselineUtility];
+
+// PG&E gas shares the electric baseline territory; other utilities use the customer's gas climate
+// zone. Falls back to the table's default when the customer's value isn't one of its territories.
+export const resolveGasBaselineTerritory = (table: GasBaselineTable, customer: CustomerProfile = {}): string => {
+  const territory = table.sharesElectricTerritories ? customer.baselineTerritory : customer.gasClimateZone;
+  return territory && table.territories[territory] ? territory : table.defaultTerritory;
+};
+
+export const getDailyGasBaseline = (tariff: GasTariff, month: number, day: number, customer: CustomerProfile = {}): number => {
+  const table = getGasBaselineTable(tariff);
+  const territory = table.territories[resolveGasBaselineTerritory(table, customer)];
+  const season = getSeason(table, month, day);
+  return (territory[season] ?? 0) + (customer.medicalBaseline ? table.medicalThermsPerDay : 0);
+};
+
+// Baseline allowance (therms) for a billing period of `days` days starting on `startDay`
+// (YYYY-MM-DD, utility-local), each day at its own season's allowance.
+export const getGasBaselineAllowance = (
+  tariff: GasTariff,
+  startDay: string,
+  days: number,
+  customer: CustomerProfile = {}
+): number => {
+  const [y, m, d] = startDay.split('-').map(Number);
+  const start = Date.UTC(y, m - 1, d, 12);
+  let total = 0;
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start + i * DAY_MS);
+    total += getDailyGasBaseline(tariff, date.getUTCMonth(), date.getUTCDate(), customer);
+  }
+  return total;
+};
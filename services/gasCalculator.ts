@@ -1,4 +1,9 @@
-import { GasReading, GasTariff, GasComparisonResult, MonthlyBreakdown } from '../types';
+import { GasReading, GasTariff, GasComparisonResult, MonthlyBreakdown, CustomerProfile } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE } from './timeZone';
+import { getGasDiscountRate } from './discountPrograms';
+import { BillingPeriod, createBillingPeriodResolver } from './billingCycles';
+import { getGasBaselineAllowance } from './gasBaselines';
+import { getCurrentGasRates, getGasRates } from './gasRateHistory';
 
 export interface GasDetailedCost {
   totalTherms: number;
@@ -7,12 +12,54 @@ export interface GasDetailedCost {
   overBaselineTherms: number;
   baselineCost: number;
   overBaselineCost: number;
+  discount: number; // CARE discount on therm charges
   fixedCharges: number;
+  periods: number;   // billing periods (calendar months without cycles)
 }
 
+interface GasPeriodUsage {
+  period: BillingPeriod;
+  usage: number;
+}
+
+// Therms per billing period (calendar month when no cycles are given)
+const groupGasUsage = (
+  readings: GasReading[],
+  timeZone: string,
+  billingCycles?: BillingPeriod[]
+): Map<string, GasPeriodUsage> => {
+  const resolvePeriod = createBillingPeriodResolver(timeZone, billingCycles);
+  const periods = new Map<string, GasPeriodUsage>();
+  for (const reading of readings) {
+    const period = resolvePeriod(reading.timestamp);
+    const entry = periods.get(period.key);
+    if (entry) entry.usage += reading.value;
+    else periods.set(period.key, { period, usage: reading.value });
+  }
+  return periods;
+};
+
+// Baseline and over-baseline therms for one period, against the allowance for its days, priced
+// at the rates for the period's statement month
+const priceGasPeriod = (tariff: GasTariff, { period, usage }: GasPeriodUsage, customer: CustomerProfile) => {
+  const allowance = getGasBaselineAllowance(tariff, period.startDay, period.days, customer);
+  const baseline = Math.min(usage, allowance);
+  const overBaseline = Math.max(0, usage - allowance);
+  const rates = getGasRates(tariff, period.month);
+  return {
+    baseline,
+    overBaseline,
+    baselineCost: baseline * rates.baselineRate,
+    overBaselineCost: overBaseline * rates.overBaselineRate
+  };
+};
+
 export const calculateGasCost = (
   readings: GasReading[],
-  tariff: GasTariff
+  tariff: GasTariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
 ): GasDetailedCost => {
   if (readings.length === 0) {
     return {
@@ -22,39 +69,35 @@ export const calculateGasCost = (
       overBaselineTherms: 0,
       baselineCost: 0,
       overBaselineCost: 0,
-      fixedCharges: 0
+      discount: 0,
+      fixedCharges: 0,
+      periods: 0
     };
   }
 
-  // Group readings by month
-  const monthlyUsage = new Map<string, number>();
-
-  for (const reading of readings) {
-    const monthKey = `${reading.timestamp.getFullYear()}-${String(reading.timestamp.getMonth() + 1).padStart(2, '0')}`;
-    monthlyUsage.set(monthKey, (monthlyUsage.get(monthKey) ?? 0) + reading.value);
-  }
+  const periodUsage = groupGasUsage(readings, timeZone, billingCycles);
 
   let totalTherms = 0;
   let baselineTherms = 0;
   let overBaselineTherms = 0;
   let baselineCost = 0;
   let overBaselineCost = 0;
-  const numMonths = monthlyUsage.size;
+  const numMonths = periodUsage.size;
 
-  for (const [, usage] of monthlyUsage) {
-    totalTherms += usage;
+  for (const entry of periodUsage.values()) {
+    totalTherms += entry.usage;
 
-    const baseline = Math.min(usage, tariff.baselineTherms);
-    const overBaseline = Math.max(0, usage - tariff.baselineTherms);
+    const priced = priceGasPeriod(tariff, entry, customer);
 
-    baselineTherms += baseline;
-    overBaselineTherms += overBaseline;
-    baselineCost += baseline * tariff.baselineRate;
-    overBaselineCost += overBaseline * tariff.overBaselineRate;
+    baselineTherms += priced.baseline;
+    overBaselineTherms += priced.overBaseline;
+    baselineCost += priced.baselineCost;
+    overBaselineCost += priced.overBaselineCost;
   }
 
+  const discount = (baselineCost + overBaselineCost) * getGasDiscountRate(customer);
   const fixedCharges = numMonths * tariff.fixedMonthlyCharge;
-  const totalCost = baselineCost + overBaselineCost + fixedCharges;
+  const totalCost = baselineCost + overBaselineCost - discount + fixedCharges;
 
   return {
     totalTherms,
@@ -63,40 +106,43 @@ export const calculateGasCost = (
     overBaselineTherms,
     baselineCost,
     overBaselineCost,
-    fixedCharges
+    discount,
+    fixedCharges,
+    periods: numMonths
   };
 };
 
 export const calculateGasMonthlyBreakdown = (
   readings: GasReading[],
-  tariff: GasTariff
+  tariff: GasTariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
 ): MonthlyBreakdown[] => {
   if (readings.length === 0) return [];
-
-  // Group readings by month
-  const monthlyData = new Map<string, GasReading[]>();
-
-  for (const reading of readings) {
-    const monthKey = `${reading.timestamp.getFullYear()}-${String(reading.timestamp.getMonth() + 1).padStart(2, '0')}`;
-    if (!monthlyData.has(monthKey)) {
-      monthlyData.set(monthKey, []);
-    }
-    monthlyData.get(monthKey)!.push(reading);
-  }
+  const discountRate = getGasDiscountRate(customer);
 
   const breakdown: MonthlyBreakdown[] = [];
 
-  for (const [monthName, monthReadings] of monthlyData) {
-    const usage = monthReadings.reduce((sum, r) => sum + r.value, 0);
-
-    // Calculate cost for this month
-    const baseline = Math.min(usage, tariff.baselineTherms);
-    const overBaseline = Math.max(0, usage - tariff.baselineTherms);
-    const cost = (baseline * tariff.baselineRate) +
-                 (overBaseline * tariff.overBaselineRate) +
-                 tariff.fixedMonthlyCharge;
-
-    breakdown.push({ monthName, usage, cost });
+  for (const entry of groupGasUsage(readings, timeZone, billingCycles).values()) {
+    const { period, usage } = entry;
+
+    // Calculate cost for this period
+    const priced = priceGasPeriod(tariff, entry, customer);
+    const thermCost = priced.baselineCost + priced.overBaselineCost;
+    const discount = thermCost * discountRate;
+    const cost = thermCost - discount + tariff.fixedMonthlyCharge;
+
+    breakdown.push({
+      monthName: period.key,
+      month: period.month,
+      usage,
+      cost,
+      discount: discountRate > 0 ? discount : undefined,
+      periodStart: period.startDay,
+      periodEnd: period.endDay,
+      days: period.days
+    });
   }
 
   // Sort by month
@@ -107,9 +153,12 @@ export const calculateGasMonthlyBreakdown = (
 
 export const calculateGasComparison = (
   readings: GasReading[],
-  tariff: GasTariff
+  tariff: GasTariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
 ): GasComparisonResult => {
-  const breakdown = calculateGasMonthlyBreakdown(readings, tariff);
+  const breakdown = calculateGasMonthlyBreakdown(readings, tariff, timeZone, customer, billingCycles);
   const totalUsage = breakdown.reduce((sum, m) => sum + m.usage, 0);
   const totalCost = breakdown.reduce((sum, m) => sum + m.cost, 0);
   const estimatedMonthlyCost = breakdown.length > 0 ? totalCost / breakdown.length : 0;
@@ -127,7 +176,8 @@ export const calculateGasComparison = (
 // Calculate estimated monthly gas savings from electrification
 export const calculateGasSavingsFromElectrification = (
   enabledLoads: Array<{ replacesGasTherms?: number; replacesGasAppliance?: string }>,
-  tariff: GasTariff
+  tariff: GasTariff,
+  customer: CustomerProfile = {}
 ): { monthlySavings: number; monthlyThermsOffset: number; appliances: string[] } => {
   let monthlyThermsOffset = 0;
   const appliances: string[] = [];
@@ -141,9 +191,9 @@ export const calculateGasSavingsFromElectrification = (
     }
   }
 
-  // Calculate average cost per therm (weighted toward baseline rate since most usage is baseline)
-  const avgRate = (tariff.baselineRate + tariff.overBaselineRate) / 2;
-  const monthlySavings = monthlyThermsOffset * avgRate;
+  // Offset therms come off the top of the bill, so they're priced at the current over-baseline rate
+  const { overBaselineRate } = getCurrentGasRates(tariff);
+  const monthlySavings = monthlyThermsOffset * overBaselineRate * (1 - getGasDiscountRate(customer));
 
   return { monthlySavings, monthlyThermsOffset, appliances };
 };
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { GasTariff } from '../types';
+import { calculateConversionGasSavings, convertGasToElectric, getHeatPumpCop, KWH_PER_THERM } from './gasConversion';
+import { dailyTemperatures, weatherDrivenGasReadings } from './testFixtures';
+
+const tariff: GasTariff = {
+  id: 'test-gas',
+  name: 'Test Gas',
+  description: '',
+  baselineRate: 2.00,
+  overBaselineRate: 2.50,
+  baselineUtility: 'pge',
+  fixedMonthlyCharge: 0
+};
+
+describe('convertGasToElectric', () => {
+  const conversion = convertGasToElectric(weatherDrivenGasReadings, ['spaceHeating', 'waterHeating'], dailyTemperatures)!;
+
+  it('takes the summer gas use as the baseload', () => {
+    expect(conversion.baseloadThermsPerDay).toBeCloseTo(1);
+  });
+
+  it('sizes each end use at its appliance efficiency', () => {
+    // A January day at 40°F: 5 therms of space heating and 1 therm of baseload
+    const { therms, kwh } = conversion.days.get('2025-01-15')!;
+    expect(therms).toEqual({ spaceHeating: 5, waterHeating: 0.85, cooking: expect.closeTo(0.15) });
+    expect(getHeatPumpCop(40)).toBeCloseTo(3.22);
+    expect(kwh.spaceHeating).toBeCloseTo(5 * KWH_PER_THERM * 0.80 / 3.22);
+    expect(kwh.waterHeating).toBeCloseTo(0.85 * KWH_PER_THERM * 0.60 / 3.0);
+    expect(kwh.cooking).toBeCloseTo(0.15 * KWH_PER_THERM * 0.32 / 0.85);
+  });
+});
+
+describe('calculateConversionGasSavings', () => {
+  it('saves more than the offset therms at the average tier rate', () => {
+    const conversion = convertGasToElectric(weatherDrivenGasReadings, ['spaceHeating'], dailyTemperatures)!;
+    const { monthlySavings, monthlyThermsOffset } = calculateConversionGasSavings(weatherDrivenGasReadings, conversion, tariff);
+
+    // January and April heating, averaged over the three months of data
+    expect(monthlyThermsOffset).toBeCloseTo((31 * 5 + 30 * 2) / 3);
+    // Heating comes off the top of each month's usage, mostly over baseline
+    const averageRateEstimate = monthlyThermsOffset * (tariff.baselineRate + tariff.overBaselineRate) / 2;
+    expect(monthlySavings).toBeGreaterThan(averageRateEstimate);
+    expect(monthlySavings).toBeLessThanOrEqual(monthlyThermsOffset * tariff.overBaselineRate + 1e-9);
+  });
+});
@@ -0,0 +1,208 @@
+import { CustomerProfile, DailyTemperature, GasEndUse, GasReading, GasTariff } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts, zonedDayKey } from './timeZone';
+import { calculateGasCost } from './gasCalculator';
+import { BillingPeriod } from './billingCycles';
+
+// Gas-to-electric conversion from the household's own gas data. Summer gas use is the baseload
+// (water heating and cooking); anything above it on a given day is space heating. Each end use is
+// turned into the heat it actually delivered (therms × appliance efficiency) and then into the kWh
+// an electric replacement needs for that heat: a heat pump at a COP that falls as it gets colder,
+// a heat pump water heater, or an induction range.
+//
+// Outdoor temperature comes from the weather file when loaded, otherwise from typical Bay Area
+// monthly means.
+
+export const KWH_PER_THERM = 29.3071;
+
+const FURNACE_EFFICIENCY = 0.80;          // AFUE, typical existing furnace
+const GAS_WATER_HEATER_EFFICIENCY = 0.60; // UEF, storage tank
+const HEAT_PUMP_WATER_HEATER_COP = 3.0;
+const GAS_COOKING_EFFICIENCY = 0.32;      // share of burner heat reaching the pan
+const INDUCTION_EFFICIENCY = 0.85;
+const COOKING_SHARE_OF_BASELOAD = 0.15;   // the rest of summer baseload is water heating
+
+// Heat pump COP: linear between the rating points, floored at electric-resistance backup
+const COP_AT_47F = 3.5;
+const COP_AT_17F = 2.3;
+const MIN_COP = 1.0;
+const MAX_COP = 4.5;
+
+const SUMMER_MONTHS = [5, 6, 7, 8]; // Jun–Sep (0-11)
+
+// Typical daily mean °F by month (Bay Area) when no weather file is loaded
+const DEFAULT_MONTHLY_MEAN_F = [50, 53, 55, 57, 60, 63, 64, 65, 66, 62, 55, 50];
+
+const normalizeShape = (shape: number[]): number[] => {
+  const total = shape.reduce((s, v) => s + v, 0);
+  return shape.map(v => v / total);
+};
+
+// Share of each end use's daily energy by hour of day (0-23)
+const HOURLY_SHAPES: Record<GasEndUse, number[]> = {
+  spaceHeating: normalizeShape([
+    0.03, 0.03, 0.03, 0.03, 0.04, 0.06, 0.08, 0.08,
+    0.06, 0.04, 0.03, 0.02, 0.02, 0.02, 0.02, 0.03,
+    0.04, 0.05, 0.06, 0.06, 0.05, 0.05, 0.04, 0.03
+  ]),
+  waterHeating: normalizeShape([
+    0.02, 0.01, 0.01, 0.01, 0.02, 0.05, 0.09, 0.10,
+    0.08, 0.06, 0.04, 0.03, 0.03, 0.03, 0.03, 0.03,
+    0.04, 0.05, 0.06, 0.06, 0.05, 0.04, 0.03, 0.03
+  ]),
+  cooking: normalizeShape([
+    0.00, 0.00, 0.00, 0.00, 0.00, 0.00, 0.02, 0.08,
+    0.06, 0.02, 0.02, 0.04, 0.08, 0.04, 0.02, 0.02,
+    0.04, 0.10, 0.14, 0.14, 0.10, 0.04, 0.02, 0.02
+  ])
+};
+
+export type GasEndUseAmounts = Record<GasEndUse, number>;
+
+export interface GasConversion {
+  endUses: GasEndUse[];         // end uses converted to electric
+  baseloadThermsPerDay: number; // summer gas use (water heating + cooking)
+  days: Map<string, { therms: GasEndUseAmounts; kwh: GasEndUseAmounts }>; // by utility-local day
+  monthlyTherms: GasEndUseAmounts; // average per month, all end uses
+  monthlyKwh: GasEndUseAmounts;    // average per month if converted, all end uses
+}
+
+const zeroAmounts = (): GasEndUseAmounts => ({ spaceHeating: 0, waterHeating: 0, cooking: 0 });
+
+export const getHeatPumpCop = (outdoorF: number): number =>
+  Math.min(MAX_COP, Math.max(MIN_COP, COP_AT_17F + (outdoorF - 17) * (COP_AT_47F - COP_AT_17F) / 30));
+
+// kWh an electric replacement needs for the heat `therms` of gas delivered through each appliance
+const toKwh = (therms: GasEndUseAmounts, outdoorF: number): GasEndUseAmounts => ({
+  spaceHeating: therms.spaceHeating * KWH_PER_THERM * FURNACE_EFFICIENCY / getHeatPumpCop(outdoorF),
+  waterHeating: therms.waterHeating * KWH_PER_THERM * GAS_WATER_HEATER_EFFICIENCY / HEAT_PUMP_WATER_HEATER_COP,
+  cooking: therms.cooking * KWH_PER_THERM * GAS_COOKING_EFFICIENCY / INDUCTION_EFFICIENCY
+});
+
+// Split the gas readings by end use and size the electric replacements. Null without gas data.
+export const convertGasToElectric = (
+  gasReadings: GasReading[],
+  endUses: GasEndUse[],
+  temperatures: DailyTemperature[] = [],
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): GasConversion | null => {
+  if (gasReadings.length === 0) return null;
+
+  const dailyTherms = new Map<string, number>();
+  for (const r of gasReadings) {
+    const day = zonedDayKey(r.timestamp, timeZone);
+    dailyTherms.set(day, (dailyTherms.get(day) ?? 0) + r.value);
+  }
+
+  // Summer baseload; without summer data, the lowest calendar month's average
+  const byMonth = new Map<number, { therms: number; days: number }>();
+  for (const [day, therms] of dailyTherms) {
+    const month = Number(day.slice(5, 7)) - 1;
+    const entry = byMonth.get(month) ?? { therms: 0, days: 0 };
+    entry.therms += therms;
+    entry.days++;
+    byMonth.set(month, entry);
+  }
+  const summer = SUMMER_MONTHS.map(m => byMonth.get(m)).filter(e => e != null);
+  const baseloadThermsPerDay = summer.length > 0
+    ? summer.reduce((s, e) => s + e.therms, 0) / summer.reduce((s, e) => s + e.days, 0)
+    : Math.min(...Array.from(byMonth.values()).map(e => e.therms / e.days));
+
+  const temperatureByDay = new Map(temperatures.map(t => [t.date, t.meanF]));
+  const days: GasConversion['days'] = new Map();
+  const thermTotals = zeroAmounts();
+  const kwhTotals = zeroAmounts();
+  for (const [day, total] of dailyTherms) {
+    const base = Math.min(total, baseloadThermsPerDay);
+    const therms: GasEndUseAmounts = {
+      spaceHeating: total - base,
+      waterHeating: base * (1 - COOKING_SHARE_OF_BASELOAD),
+      cooking: base * COOKING_SHARE_OF_BASELOAD
+    };
+    const outdoorF = temperatureByDay.get(day) ?? DEFAULT_MONTHLY_MEAN_F[Number(day.slice(5, 7)) - 1];
+    const kwh = toKwh(therms, outdoorF);
+    days.set(day, { therms, kwh });
+    for (const use of Object.keys(thermTotals) as GasEndUse[]) {
+      thermTotals[use] += therms[use];
+      kwhTotals[use] += kwh[use];
+    }
+  }
+
+  const months = dailyTherms.size / (365 / 12);
+  const perMonth = (totals: GasEndUseAmounts): GasEndUseAmounts => ({
+    spaceHeating: totals.spaceHeating / months,
+    waterHeating: totals.waterHeating / months,
+    cooking: totals.cooking / months
+  });
+
+  return { endUses, baseloadThermsPerDay, days, monthlyTherms: perMonth(thermTotals), monthlyKwh: perMonth(kwhTotals) };
+};
+
+// Average kWh per day of the converted end uses for each calendar month, for electric days the gas
+// data doesn't cover
+const monthlyAverageCache = new WeakMap<GasConversion, Map<number, number>>();
+const getMonthlyAverageKwh = (conversion: GasConversion, month: number): number => {
+  let averages = monthlyAverageCache.get(conversion);
+  if (!averages) {
+    const sums = new Map<number, { kwh: number; days: number }>();
+    for (const [day, { kwh }] of conversion.days) {
+      const m = Number(day.slice(5, 7)) - 1;
+      const entry = sums.get(m) ?? { kwh: 0, days: 0 };
+      entry.kwh += conversion.endUses.reduce((s, use) => s + kwh[use], 0);
+      entry.days++;
+      sums.set(m, entry);
+    }
+    averages = new Map(Array.from(sums, ([m, e]) => [m, e.kwh / e.days]));
+    monthlyAverageCache.set(conversion, averages);
+  }
+  return averages.get(month) ?? 0;
+};
+
+// kWh the converted end uses draw in the utility-local hour containing `date`
+export const getConvertedHourlyKwh = (
+  conversion: GasConversion,
+  date: Date,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): number => {
+  const { hour, month } = getZonedParts(date, timeZone);
+  const day = conversion.days.get(zonedDayKey(date, timeZone));
+  if (!day) {
+    // No gas data for this day: the month's average, on a blended hourly shape
+    const shape = conversion.endUses.reduce((s, use) => s + HOURLY_SHAPES[use][hour], 0) / Math.max(1, conversion.endUses.length);
+    return getMonthlyAverageKwh(conversion, month) * shape;
+  }
+  return conversion.endUses.reduce((s, use) => s + day.kwh[use] * HOURLY_SHAPES[use][hour], 0);
+};
+
+// Gas readings with the converted end uses taken out, spread over each day's readings
+export const removeConvertedGas = (
+  gasReadings: GasReading[],
+  conversion: GasConversion,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): GasReading[] =>
+  gasReadings.map(r => {
+    const day = conversion.days.get(zonedDayKey(r.timestamp, timeZone));
+    if (!day) return r;
+    const total = day.therms.spaceHeating + day.therms.waterHeating + day.therms.cooking;
+    const removed = conversion.endUses.reduce((s, use) => s + day.therms[use], 0);
+    return total > 0 ? { ...r, value: r.value * (1 - removed / total) } : r;
+  });
+
+// Gas bill savings with the converted therms removed from the top of each month's usage, so they
+// come off the over-baseline tier first — the rate they actually cost
+export const calculateConversionGasSavings = (
+  gasReadings: GasReading[],
+  conversion: GasConversion,
+  tariff: GasTariff,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  customer: CustomerProfile = {},
+  billingCycles?: BillingPeriod[]
+): { monthlySavings: number; monthlyThermsOffset: number } => {
+  const before = calculateGasCost(gasReadings, tariff, timeZone, customer, billingCycles);
+  const after = calculateGasCost(removeConvertedGas(gasReadings, conversion, timeZone), tariff, timeZone, customer, billingCycles);
+  if (before.periods === 0) return { monthlySavings: 0, monthlyThermsOffset: 0 };
+
+  return {
+    monthlySavings: (before.totalCost - after.totalCost) / before.periods,
+    monthlyThermsOffset: (before.totalTherms - after.totalTherms) / before.periods
+  };
+};
@@ -0,0 +1,20 @@
+import { GasFileFormat, PgeGasCsvParseResult, parsePgeGasCsv } from './pgeGasCsvParser';
+import { looksLikeSoCalGasCsv, parseSoCalGasCsv } from './socalGasCsvParser';
+import { parseCsvRows } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE } from './timeZone';
+import { DEFAULT_THERM_FACTOR } from './gasUnits';
+
+// Detect which utility's gas CSV layout this is. PG&E is the fallback, as for electric files.
+export const detectGasCsvFormat = (csvText: string): GasFileFormat =>
+  looksLikeSoCalGasCsv(parseCsvRows(csvText)) ? 'socalgas-csv' : 'pge-gas-csv';
+
+// CSV exports print utility wall-clock times, read in `timeZone`. `thermFactor` converts CCF
+// files that don't carry their own billing factor.
+export const parseGasCsv = (
+  csvText: string,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  thermFactor: number = DEFAULT_THERM_FACTOR
+): PgeGasCsvParseResult => {
+  if (detectGasCsvFormat(csvText) === 'socalgas-csv') return parseSoCalGasCsv(csvText, timeZone, thermFactor);
+  return parsePgeGasCsv(csvText, timeZone);
+};
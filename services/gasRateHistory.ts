@@ -0,0 +1,78 @@
+import { GasMonthlyRate, GasTariff } from '../types';
+import { normalizeHeader, parseCsvRows, parseNumber } from './csvUtils';
+import bundledGasRates from '../data/gasRates.csv?raw';
+
+// Month-by-month gas rates. Gas procurement is a pass-through of the utility's purchase cost and
+// is reset every month (transportation changes a few times a year), so a year of gas usage priced
+// at one month's rates can be far off. Series come from a CSV with one row per tariff and month:
+//
+//   tariff,month,procurement,baseline transportation,over baseline transportation
+//   pge-g1,2025-12,0.78,2.19,2.70
+//
+// The bundled series is approximate (PG&E Dec 2025 checked against a bill) — load your utility's
+// published monthly rates for exact costs.
+
+// Gas rate series by tariff id, months ascending
+export type GasRateSeries = Record<string, GasMonthlyRate[]>;
+
+export interface GasRates {
+  baselineRate: number;     // $/therm
+  overBaselineRate: number; // $/therm
+}
+
+const REQUIRED_COLUMNS = ['tariff', 'month', 'procurement', 'baseline transportation', 'over baseline transportation'];
+
+// Parse and validate a gas rate CSV (bundled or user-supplied)
+export const loadGasRateSeries = (csvText: string): GasRateSeries => {
+  const [header, ...rows] = parseCsvRows(csvText);
+  const columns = (header ?? []).map(normalizeHeader);
+  const missing = REQUIRED_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new Error(`Gas rate CSV is missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`);
+  }
+  const col = (row: string[], name: string) => row[columns.indexOf(name)] ?? '';
+
+  const byMonth = new Map<string, Map<string, GasMonthlyRate>>();
+  rows.forEach((row, i) => {
+    const tariff = col(row, 'tariff').trim();
+    const month = col(row, 'month').trim();
+    const procurement = parseNumber(col(row, 'procurement'));
+    const baselineTransportation = parseNumber(col(row, 'baseline transportation'));
+    const overBaselineTransportation = parseNumber(col(row, 'over baseline transportation'));
+    if (!tariff || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)
+      || procurement == null || baselineTransportation == null || overBaselineTransportation == null) {
+      throw new Error(`Gas rate CSV row ${i + 2} needs a tariff id, a YYYY-MM month and three numeric rates.`);
+    }
+    if (!byMonth.has(tariff)) byMonth.set(tariff, new Map());
+    // A repeated month replaces the earlier row
+    byMonth.get(tariff)!.set(month, { month, procurement, baselineTransportation, overBaselineTransportation });
+  });
+  if (byMonth.size === 0) throw new Error('Gas rate CSV has no rate rows.');
+
+  const series: GasRateSeries = {};
+  for (const [tariff, months] of byMonth) {
+    series[tariff] = Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+  }
+  return series;
+};
+
+export const DEFAULT_GAS_RATE_SERIES: GasRateSeries = loadGasRateSeries(bundledGasRates);
+
+// The tariff with its monthly rates from `series`; tariffs the series doesn't cover are unchanged
+export const withGasRateHistory = (tariff: GasTariff, series: GasRateSeries): GasTariff =>
+  series[tariff.id] ? { ...tariff, rateHistory: series[tariff.id] } : tariff;
+
+// Tier rates for a month (YYYY-MM): the latest series month at or before it, so months past the
+// end of the series keep its last rates. Months before the series use the tariff's static rates.
+export const getGasRates = (tariff: GasTariff, month: string): GasRates => {
+  const entry = tariff.rateHistory?.filter(r => r.month <= month).pop();
+  if (!entry) return { baselineRate: tariff.baselineRate, overBaselineRate: tariff.overBaselineRate };
+  return {
+    baselineRate: entry.procurement + entry.baselineTransportation,
+    overBaselineRate: entry.procurement + entry.overBaselineTransportation
+  };
+};
+
+// The rates in effect now: the last series month, else the tariff's static rates
+export const getCurrentGasRates = (tariff: GasTariff): GasRates =>
+  getGasRates(tariff, tariff.rateHistory?.[tariff.rateHistory.length - 1]?.month ?? '');
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { detectGasUnit, thermConversionWarning, toTherms } from './gasUnits';
+
+describe('detectGasUnit', () => {
+  it('reads the unit from headers and unit cells', () => {
+    expect(detectGasUnit('Usage (Therms)')).toBe('therm');
+    expect(detectGasUnit('HCF')).toBe('ccf');
+    expect(detectGasUnit('Usage (ft³)')).toBe('cf');
+    expect(detectGasUnit('m3')).toBe('m3');
+    expect(detectGasUnit('Usage')).toBeNull();
+  });
+});
+
+describe('toTherms', () => {
+  it('converts volume at the therm factor', () => {
+    expect(toTherms(2, 'therm', 1.05)).toBe(2);
+    expect(toTherms(2, 'ccf', 1.05)).toBeCloseTo(2.1);
+    expect(toTherms(200, 'cf', 1.05)).toBeCloseTo(2.1);
+    expect(toTherms(1, 'm3', 1)).toBeCloseTo(0.353147);
+  });
+});
+
+describe('thermConversionWarning', () => {
+  it('names the factors a volume file was converted at', () => {
+    expect(thermConversionWarning('therm', [])).toBeNull();
+    expect(thermConversionWarning('ccf', [1.05, 1.04, 1.05])).toMatch(/billing therm factor \(1\.050, 1\.040\)/);
+  });
+});
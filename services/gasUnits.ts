@@ -0,0 +1,46 @@
+// Gas volume → therms. Meters measure volume (CCF = hundred cubic feet); bills charge by therms
+// of heat, using a billing therm factor (BTU factor) that reflects the gas's heat content and the
+// service altitude. It varies by month and area, around 1.02–1.06 in California — the exact value
+// is printed on the bill.
+
+export type GasUnit = 'therm' | 'ccf' | 'cf' | 'm3';
+
+export const DEFAULT_THERM_FACTOR = 1.037;
+
+const CUBIC_FEET_PER_M3 = 35.3147;
+
+// Unit named in a header or units cell, e.g. "Usage (CCF)", "Therms", "HCF"; null if none
+export const detectGasUnit = (text: string): GasUnit | null => {
+  const t = text.toLowerCase();
+  if (/therm/.test(t)) return 'therm';
+  if (/\b(ccf|hcf)\b|hundred cubic feet/.test(t)) return 'ccf';
+  if (/\bm3\b|m³|cubic met/.test(t)) return 'm3';
+  if (/\b(cf|ft3|cu ?ft)\b|ft³|cubic f(ee|oo)t/.test(t)) return 'cf';
+  return null;
+};
+
+export const toTherms = (value: number, unit: GasUnit, thermFactor: number = DEFAULT_THERM_FACTOR): number => {
+  switch (unit) {
+    case 'therm': return value;
+    case 'ccf': return value * thermFactor;
+    case 'cf': return value / 100 * thermFactor;
+    case 'm3': return value * CUBIC_FEET_PER_M3 / 100 * thermFactor;
+  }
+};
+
+export const GAS_UNIT_LABELS: Record<GasUnit, string> = {
+  therm: 'therms',
+  ccf: 'CCF',
+  cf: 'cubic feet',
+  m3: 'cubic meters'
+};
+
+// Warning text for volume files converted with a therm factor
+export const thermConversionWarning = (unit: GasUnit, factors: number[]): string | null => {
+  if (unit === 'therm') return null;
+  const distinct = Array.from(new Set(factors.map(f => f.toFixed(3))));
+  if (distinct.length === 0) return `Converted ${GAS_UNIT_LABELS[unit]} to therms using the billing therm factor.`;
+  return distinct.length === 1 && Number(distinct[0]) === DEFAULT_THERM_FACTOR
+    ? `Converted ${GAS_UNIT_LABELS[unit]} to therms at a typical billing therm factor of ${DEFAULT_THERM_FACTOR} — your bill shows the exact factor.`
+    : `Converted ${GAS_UNIT_LABELS[unit]} to therms using the file's billing therm factor (${distinct.join(', ')}).`;
+};
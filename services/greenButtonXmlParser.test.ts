@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseGreenButtonXml } from './greenButtonXmlParser';
+
+// A bare ESPI document: one Wh channel of hourly readings starting 2025-01-06 00:00 Pacific
+const espiXml = (localTime: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<espi:UsagePoint xmlns:espi="http://naesb.org/espi">
+  <espi:ReadingType>
+    <espi:flowDirection>1</espi:flowDirection>
+    <espi:intervalLength>3600</espi:intervalLength>
+    <espi:powerOfTenMultiplier>0</espi:powerOfTenMultiplier>
+    <espi:uom>72</espi:uom>
+  </espi:ReadingType>
+  <espi:LocalTimeParameters>${localTime}</espi:LocalTimeParameters>
+  <espi:IntervalBlock>
+    ${[0, 1, 2].map(h => `<espi:IntervalReading>
+      <espi:timePeriod><espi:duration>3600</espi:duration><espi:start>${1736150400 + h * 3600}</espi:start></espi:timePeriod>
+      <espi:value>1500</espi:value>
+    </espi:IntervalReading>`).join('')}
+  </espi:IntervalBlock>
+</espi:UsagePoint>`;
+
+const localTimeParameters = (tzOffset: number, dstOffset: number, dstStartRule?: string, dstEndRule?: string): string =>
+  (dstStartRule ? `<espi:dstStartRule>${dstStartRule}</espi:dstStartRule>` : '')
+  + (dstEndRule ? `<espi:dstEndRule>${dstEndRule}</espi:dstEndRule>` : '')
+  + `<espi:dstOffset>${dstOffset}</espi:dstOffset><espi:tzOffset>${tzOffset}</espi:tzOffset>`;
+
+describe('parseGreenButtonXml time zone', () => {
+  it('maps a Pacific offset with US daylight saving rules to Los Angeles', () => {
+    // 2nd Sunday of March and 1st Sunday of November, 2 AM
+    const result = parseGreenButtonXml(espiXml(localTimeParameters(-28800, 3600, '360E2000', 'B40E2000')), 'America/New_York');
+
+    expect(result.timeZone).toBe('America/Los_Angeles');
+    expect(result.warnings).toEqual([]);
+    expect(result.readings.map(r => r.value)).toEqual([1.5, 1.5, 1.5]);
+  });
+
+  it('maps Mountain standard time without daylight saving to Phoenix', () => {
+    const result = parseGreenButtonXml(espiXml(localTimeParameters(-25200, 0)));
+    expect(result.timeZone).toBe('America/Phoenix');
+  });
+
+  it('falls back with a warning when the daylight saving rules are not US rules', () => {
+    // 1st Sunday of April: the pre-2007 US start, which no current zone follows
+    const result = parseGreenButtonXml(espiXml(localTimeParameters(-28800, 3600, '440E2000', 'B40E2000')), 'America/Denver');
+
+    expect(result.timeZone).toBe('America/Denver');
+    expect(result.warnings).toEqual([expect.stringMatching(/daylight saving rules \(440E2000, B40E2000\) don't match a US time zone/)]);
+  });
+});
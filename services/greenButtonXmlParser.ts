@@ -0,0 +1,409 @@
+import { EnergyReading, GasReading } from '../types';
+import { PgeCsvParseResult } from './pgeCsvParser';
+import { PgeGasCsvParseResult, detectGasIntervalWarning, sumGasByTimestamp } from './pgeGasCsvParser';
+import { sumByTimestamp } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE, getTimeZoneOffsetMs } from './timeZone';
+import { channelReading } from './readingChannels';
+import { DEFAULT_THERM_FACTOR, GasUnit, thermConversionWarning, toTherms } from './gasUnits';
+
+// ESPI ReadingType.flowDirection codes: 1 = forward (delivered to customer), 19 = reverse (received from customer)
+const FLOW_FORWARD = 1;
+const FLOW_REVERSE = 19;
+
+// ESPI ReadingType.uom codes
+const UOM_WH = 72;
+const UOM_THERM = 169;
+const UOM_CUBIC_FEET = 119;
+const UOM_CUBIC_METERS = 42;
+
+const GAS_UNITS_BY_UOM: Record<number, GasUnit> = {
+  [UOM_THERM]: 'therm',
+  [UOM_CUBIC_FEET]: 'cf',
+  [UOM_CUBIC_METERS]: 'm3'
+};
+
+const isGasChannel = (c: MeterReadingChannel): boolean =>
+  c.readingType.uom != null && GAS_UNITS_BY_UOM[c.readingType.uom] != null;
+
+interface ReadingTypeInfo {
+  powerOfTenMultiplier: number;
+  uom: number | null;
+  flowDirection: number;
+  intervalLength: number | null;
+}
+
+interface LocalTimeInfo {
+  tzOffset: number;   // seconds from UTC for standard time, e.g. -28800 for Pacific
+  dstOffset: number;  // seconds added during DST, usually 3600
+  dstStartRule: string | null;
+  dstEndRule: string | null;
+}
+
+interface MeterReadingChannel {
+  readingType: ReadingTypeInfo;
+  intervals: Array<{ start: number; duration: number; value: number }>;
+}
+
+// ESPI only describes the zone as a standard offset plus DST rules; map the US offsets to IANA zones
+// so wall-clock parts come from Intl. The feed's own DST rules are decoded to check the zone matches.
+const US_ZONES_BY_OFFSET: Record<number, { dst: string; standard: string }> = {
+  [-36000]: { dst: 'Pacific/Honolulu', standard: 'Pacific/Honolulu' },
+  [-32400]: { dst: 'America/Anchorage', standard: 'America/Anchorage' },
+  [-28800]: { dst: 'America/Los_Angeles', standard: 'America/Los_Angeles' },
+  [-25200]: { dst: 'America/Denver', standard: 'America/Phoenix' },
+  [-21600]: { dst: 'America/Chicago', standard: 'America/Chicago' },
+  [-18000]: { dst: 'America/New_York', standard: 'America/New_York' }
+};
+
+// Decode an ESPI DstRuleType (4-byte hex) into the UTC instant (seconds) it fires in a given year.
+// Bit layout: 28-31 month, 25-27 operator, 20-24 day of month, 17-19 day of week (1=Mon..7=Sun),
+// 12-16 hour, 0-11 seconds. Standard US feeds use 360E2000 (2nd Sunday of March, 2 AM) and
+// B40E2000 (1st Sunday of November, 2 AM), where operator N selects the (N-1)th occurrence.
+const dstRuleToUtcSeconds = (rule: string, year: number, standardOffset: number): number | null => {
+  const raw = parseInt(rule, 16);
+  if (!Number.isFinite(raw)) return null;
+
+  const month = (raw >>> 28) & 0xf;
+  const operator = (raw >>> 25) & 0x7;
+  const dayOfMonth = (raw >>> 20) & 0x1f;
+  const dayOfWeek = (raw >>> 17) & 0x7;
+  const hour = (raw >>> 12) & 0x1f;
+  const seconds = raw & 0xfff;
+  if (month < 1 || month > 12 || hour > 23) return null;
+
+  let day: number;
+  if (dayOfWeek === 0) {
+    // Fixed calendar date
+    if (dayOfMonth < 1) return null;
+    day = dayOfMonth;
+  } else {
+    const jsDow = dayOfWeek % 7; // ESPI 7 = Sunday → JS 0
+    const firstOfMonthDow = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const firstMatch = 1 + ((jsDow - firstOfMonthDow + 7) % 7);
+    if (dayOfMonth > 0) {
+      // First matching weekday on or after dayOfMonth
+      const dom = new Date(Date.UTC(year, month - 1, dayOfMonth)).getUTCDay();
+      day = dayOfMonth + ((jsDow - dom + 7) % 7);
+    } else {
+      const occurrence = Math.max(1, operator - 1);
+      day = firstMatch + (occurrence - 1) * 7;
+    }
+  }
+
+  // Rule times are local standard time
+  const localSeconds = Date.UTC(year, month - 1, day, hour, 0, 0) / 1000 + seconds;
+  return localSeconds - standardOffset;
+};
+
+// True when the zone's offset switches to daylight time at the feed's start rule and back at its
+// end rule in every given year
+const zoneFollowsDstRules = (timeZone: string, tz: LocalTimeInfo, years: number[]): boolean =>
+  years.every(year => {
+    const start = dstRuleToUtcSeconds(tz.dstStartRule!, year, tz.tzOffset);
+    // DST ends at the rule's local *daylight* time, i.e. one dstOffset earlier in standard time
+    const ruleEnd = dstRuleToUtcSeconds(tz.dstEndRule!, year, tz.tzOffset);
+    if (start == null || ruleEnd == null) return false;
+    const end = ruleEnd - tz.dstOffset;
+    const offsetAt = (seconds: number) => getTimeZoneOffsetMs(seconds * 1000, timeZone) / 1000;
+    const standard = tz.tzOffset;
+    const daylight = tz.tzOffset + tz.dstOffset;
+    return offsetAt(start - 1) === standard && offsetAt(start) === daylight
+      && offsetAt(end - 1) === daylight && offsetAt(end) === standard;
+  });
+
+const timeZoneForLocalTime = (tz: LocalTimeInfo, years: number[]): string | null => {
+  const known = US_ZONES_BY_OFFSET[tz.tzOffset];
+  if (known && !tz.dstOffset) return known.standard;
+  if (known) {
+    // Feeds that omit the rules are assumed to follow US rules, like the zone itself
+    if (!tz.dstStartRule || !tz.dstEndRule) return known.dst;
+    return zoneFollowsDstRules(known.dst, tz, years) ? known.dst : null;
+  }
+  // Whole-hour offsets without DST have a fixed Etc zone (note the inverted sign: Etc/GMT+8 is UTC−8)
+  if (!tz.dstOffset && tz.tzOffset % 3600 === 0) {
+    const hours = -tz.tzOffset / 3600;
+    return hours === 0 ? 'Etc/UTC' : `Etc/GMT${hours > 0 ? '+' : ''}${hours}`;
+  }
+  return null;
+};
+
+// Namespace-agnostic lookups: feeds use the espi: prefix, a default namespace, or no namespace at all.
+const childrenByName = (parent: Element | Document, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const firstChildText = (parent: Element, localName: string): string | null => {
+  const el = childrenByName(parent, localName)[0];
+  const text = el?.textContent?.trim();
+  return text ? text : null;
+};
+
+const firstChildNumber = (parent: Element, localName: string): number | null => {
+  const text = firstChildText(parent, localName);
+  if (text == null) return null;
+  const num = Number(text);
+  return Number.isFinite(num) ? num : null;
+};
+
+const getLinkHref = (entry: Element, rel: string): string[] =>
+  childrenByName(entry, 'link')
+    .filter(l => l.getAttribute('rel') === rel)
+    .map(l => (l.getAttribute('href') ?? '').trim())
+    .filter(Boolean);
+
+// Strip scheme/host so relative and absolute hrefs in the same feed compare equal
+const normalizeHref = (href: string): string =>
+  href.replace(/^https?:\/\/[^/]+/i, '').replace(/\/+$/, '');
+
+const parseReadingType = (el: Element): ReadingTypeInfo => ({
+  powerOfTenMultiplier: firstChildNumber(el, 'powerOfTenMultiplier') ?? 0,
+  uom: firstChildNumber(el, 'uom'),
+  flowDirection: firstChildNumber(el, 'flowDirection') ?? FLOW_FORWARD,
+  intervalLength: firstChildNumber(el, 'intervalLength')
+});
+
+const parseLocalTime = (el: Element): LocalTimeInfo => ({
+  tzOffset: firstChildNumber(el, 'tzOffset') ?? -28800,
+  dstOffset: firstChildNumber(el, 'dstOffset') ?? 0,
+  dstStartRule: firstChildText(el, 'dstStartRule'),
+  dstEndRule: firstChildText(el, 'dstEndRule')
+});
+
+const parseIntervalBlock = (block: Element): MeterReadingChannel['intervals'] => {
+  const intervals: MeterReadingChannel['intervals'] = [];
+  for (const ir of childrenByName(block, 'IntervalReading')) {
+    const period = childrenByName(ir, 'timePeriod')[0];
+    if (!period) continue;
+    const start = firstChildNumber(period, 'start');
+    const duration = firstChildNumber(period, 'duration');
+    // <value> also appears inside <ReadingQuality>; take the IntervalReading's direct child
+    const valueEl = Array.from(ir.children).find(c => c.localName === 'value');
+    const value = valueEl ? Number(valueEl.textContent?.trim()) : NaN;
+    if (start == null || duration == null || !Number.isFinite(value)) continue;
+    intervals.push({ start, duration, value });
+  }
+  return intervals;
+};
+
+// Every MeterReading channel in the feed with its ReadingType, plus the feed's LocalTimeParameters
+const readFeedChannels = (xmlText: string): { channels: MeterReadingChannel[]; localTime: LocalTimeInfo | null } => {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML appears malformed or unreadable.');
+  }
+
+  // ---- Index ReadingTypes, MeterReadings and LocalTimeParameters by their Atom self links ----
+  const readingTypesByHref = new Map<string, ReadingTypeInfo>();
+  const meterReadingTypeHref = new Map<string, string>(); // MeterReading self href → ReadingType href
+  const blocksByMeterReading = new Map<string, Element[]>();
+  const unlinkedBlocks: Element[] = [];
+  let localTime: LocalTimeInfo | null = null;
+
+  const entries = childrenByName(doc, 'entry');
+  for (const entry of entries) {
+    const self = getLinkHref(entry, 'self').map(normalizeHref)[0] ?? '';
+    const up = getLinkHref(entry, 'up').map(normalizeHref)[0] ?? '';
+
+    const rt = childrenByName(entry, 'ReadingType')[0];
+    if (rt) readingTypesByHref.set(self, parseReadingType(rt));
+
+    const lt = childrenByName(entry, 'LocalTimeParameters')[0];
+    if (lt && !localTime) localTime = parseLocalTime(lt);
+
+    if (childrenByName(entry, 'MeterReading').length > 0) {
+      const related = getLinkHref(entry, 'related').map(normalizeHref);
+      const rtHref = related.find(h => /\/ReadingType\//i.test(h));
+      if (rtHref) meterReadingTypeHref.set(self, rtHref);
+    }
+
+    const blocks = childrenByName(entry, 'IntervalBlock');
+    if (blocks.length > 0) {
+      // IntervalBlock "up" is .../MeterReading/{id}/IntervalBlock; self is .../IntervalBlock/{id}
+      const meterHref = (up || self).replace(/\/IntervalBlock(\/[^/]*)?$/i, '');
+      if (meterHref) {
+        blocksByMeterReading.set(meterHref, [...(blocksByMeterReading.get(meterHref) ?? []), ...blocks]);
+      } else {
+        unlinkedBlocks.push(...blocks);
+      }
+    }
+  }
+
+  // Bare ESPI documents (no Atom feed) — take every element directly
+  if (entries.length === 0) {
+    const rt = childrenByName(doc, 'ReadingType')[0];
+    if (rt) readingTypesByHref.set('', parseReadingType(rt));
+    const lt = childrenByName(doc, 'LocalTimeParameters')[0];
+    if (lt) localTime = parseLocalTime(lt);
+    unlinkedBlocks.push(...childrenByName(doc, 'IntervalBlock'));
+  }
+
+  const fallbackReadingType = readingTypesByHref.values().next().value as ReadingTypeInfo | undefined;
+
+  const channels: MeterReadingChannel[] = [];
+  for (const [meterHref, blocks] of blocksByMeterReading) {
+    const rtHref = meterReadingTypeHref.get(meterHref);
+    const readingType = (rtHref ? readingTypesByHref.get(rtHref) : undefined) ?? fallbackReadingType;
+    if (!readingType) continue;
+    channels.push({ readingType, intervals: blocks.flatMap(parseIntervalBlock) });
+  }
+  if (unlinkedBlocks.length > 0 && fallbackReadingType) {
+    channels.push({ readingType: fallbackReadingType, intervals: unlinkedBlocks.flatMap(parseIntervalBlock) });
+  }
+
+  if (channels.length === 0 || channels.every(c => c.intervals.length === 0)) {
+    throw new Error('No IntervalBlock readings were found in this XML. Make sure this is a Green Button (ESPI) usage export.');
+  }
+  return { channels, localTime };
+};
+
+// Interval length of a channel in seconds, from its ReadingType or else its shortest interval
+const channelIntervalLength = (c: MeterReadingChannel): number =>
+  c.readingType.intervalLength ?? Math.min(...c.intervals.map(i => i.duration));
+
+// Calendar years (UTC) spanned by the given channels' intervals
+const intervalYears = (channels: MeterReadingChannel[]): number[] => {
+  const starts = channels.flatMap(c => c.intervals.map(i => i.start));
+  if (starts.length === 0) return [];
+  const first = new Date(Math.min(...starts) * 1000).getUTCFullYear();
+  const last = new Date(Math.max(...starts) * 1000).getUTCFullYear();
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+};
+
+const resolveFeedTimeZone = (
+  localTime: LocalTimeInfo | null,
+  years: number[],
+  fallbackTimeZone: string,
+  warnings: string[]
+): string => {
+  const feedTimeZone = localTime ? timeZoneForLocalTime(localTime, years) : null;
+  if (!localTime) {
+    warnings.push(`No LocalTimeParameters found in this feed. Assuming ${fallbackTimeZone}.`);
+  } else if (!feedTimeZone && US_ZONES_BY_OFFSET[localTime.tzOffset] && localTime.dstOffset) {
+    warnings.push(`This feed's daylight saving rules (${localTime.dstStartRule}, ${localTime.dstEndRule}) don't match a US time zone. Assuming ${fallbackTimeZone}.`);
+  } else if (!feedTimeZone) {
+    warnings.push(`Unrecognized LocalTimeParameters (UTC offset ${localTime.tzOffset / 3600} h). Assuming ${fallbackTimeZone}.`);
+  }
+  return feedTimeZone ?? fallbackTimeZone;
+};
+
+// Interval starts are UTC epochs, so readings are exact instants. The feed's LocalTimeParameters pick
+// the utility zone; `fallbackTimeZone` is used when the feed omits them or uses an unknown offset.
+export const parseGreenButtonXml = (
+  xmlText: string,
+  fallbackTimeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): PgeCsvParseResult => {
+  const warnings: string[] = [];
+  const { channels, localTime } = readFeedChannels(xmlText);
+
+  if (channels.every(isGasChannel)) {
+    throw new Error('This XML contains gas data. Upload it as gas data instead of electricity.');
+  }
+
+  const electricChannels = channels.filter(c => c.readingType.uom == null || c.readingType.uom === UOM_WH);
+  if (electricChannels.length < channels.length) {
+    warnings.push(`Ignored ${channels.length - electricChannels.length} meter reading channel(s) that were not in Wh/kWh.`);
+  }
+
+  // Keep the most granular channel per flow direction (feeds often add daily or billing-period summaries)
+  const channelByFlow = new Map<number, MeterReadingChannel>();
+  for (const c of electricChannels) {
+    if (c.intervals.length === 0) continue;
+    const existing = channelByFlow.get(c.readingType.flowDirection);
+    if (channelIntervalLength(c) < (existing ? channelIntervalLength(existing) : Infinity)) channelByFlow.set(c.readingType.flowDirection, c);
+  }
+  const skippedChannels = electricChannels.filter(c => c.intervals.length > 0).length - channelByFlow.size;
+  if (skippedChannels > 0) {
+    warnings.push(`Ignored ${skippedChannels} coarser summary channel(s); using the most granular interval data.`);
+  }
+
+  const forward = channelByFlow.get(FLOW_FORWARD);
+  const reverse = channelByFlow.get(FLOW_REVERSE);
+  const flowDirections: Array<'forward' | 'reverse'> = [];
+  if (forward) flowDirections.push('forward');
+  if (reverse) flowDirections.push('reverse');
+  if (flowDirections.length === 0) {
+    throw new Error('Could not find a forward (delivered) or reverse (received) kWh channel in this XML.');
+  }
+
+  if (forward && reverse) {
+    warnings.push('Detected forward (import) and reverse (export) channels. Calculating NET usage (Import − Export) to match utility billing.');
+  } else if (reverse && !forward) {
+    warnings.push('Only a reverse (export) channel was found. Readings are shown as negative net usage.');
+  }
+
+  const timeZone = resolveFeedTimeZone(localTime, intervalYears(Array.from(channelByFlow.values())), fallbackTimeZone, warnings);
+
+  const readings: EnergyReading[] = [];
+  const pushChannel = (channel: MeterReadingChannel, flow: 'forward' | 'reverse') => {
+    const { powerOfTenMultiplier, uom } = channel.readingType;
+    // Wh × 10^multiplier → kWh
+    const scale = Math.pow(10, powerOfTenMultiplier) / (uom === UOM_WH || uom == null ? 1000 : 1);
+    for (const interval of channel.intervals) {
+      const ts = new Date(interval.start * 1000);
+      const kwh = interval.value * scale;
+      if (!reverse) readings.push({ timestamp: ts, value: kwh });
+      else readings.push(flow === 'forward' ? channelReading(ts, kwh, 0) : channelReading(ts, 0, kwh));
+    }
+  };
+  if (forward) pushChannel(forward, 'forward');
+  if (reverse) pushChannel(reverse, 'reverse');
+
+  // Combine import/export channels that share an interval start
+  const normalized = sumByTimestamp(readings);
+
+  if (normalized.length === 0) {
+    throw new Error('No interval readings were parsed from this XML.');
+  }
+
+  const durations = (forward ?? reverse)!.intervals.map(i => i.duration).sort((a, b) => a - b);
+  const minutes = Math.round(durations[Math.floor(durations.length / 2)] / 60);
+  if (![15, 30, 60].includes(minutes)) {
+    warnings.push(`Detected ~${minutes} minute intervals (expected 15/30/60). Data may be aggregated.`);
+  }
+
+  return { readings: normalized, warnings, flowDirections, format: 'espi-xml', timeZone };
+};
+
+// Gas feeds carry therms, or meter volume (ft³/m³, CCF as ft³ × 10²) that is converted at
+// `thermFactor`. Timestamps are exact instants, so the feed's zone only matters for warnings.
+export const parseGreenButtonGasXml = (
+  xmlText: string,
+  fallbackTimeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  thermFactor: number = DEFAULT_THERM_FACTOR
+): PgeGasCsvParseResult => {
+  const warnings: string[] = [];
+  const { channels, localTime } = readFeedChannels(xmlText);
+
+  const gasChannels = channels.filter(c => isGasChannel(c) && c.intervals.length > 0);
+  if (gasChannels.length === 0) {
+    throw new Error('This XML contains no gas (therm or cubic feet) data. If it is an electric (kWh) export, upload it as electricity data.');
+  }
+  if (gasChannels.length < channels.length) {
+    warnings.push(`Ignored ${channels.length - gasChannels.length} meter reading channel(s) that were not gas usage.`);
+  }
+
+  // Most granular delivered channel; summaries and any reverse channel are dropped
+  const forwardChannels = gasChannels.filter(c => c.readingType.flowDirection === FLOW_FORWARD);
+  const channel = (forwardChannels.length > 0 ? forwardChannels : gasChannels)
+    .reduce((best, c) => channelIntervalLength(c) < channelIntervalLength(best) ? c : best);
+  if (gasChannels.length > 1) {
+    warnings.push(`Ignored ${gasChannels.length - 1} other gas channel(s); using the most granular interval data.`);
+  }
+
+  resolveFeedTimeZone(localTime, intervalYears([channel]), fallbackTimeZone, warnings);
+
+  const { powerOfTenMultiplier, uom } = channel.readingType;
+  const sourceUnit = GAS_UNITS_BY_UOM[uom!];
+  const scale = Math.pow(10, powerOfTenMultiplier);
+  const readings: GasReading[] = channel.intervals.map(interval => ({
+    timestamp: new Date(interval.start * 1000),
+    value: toTherms(interval.value * scale, sourceUnit, thermFactor)
+  }));
+  const normalized = sumGasByTimestamp(readings);
+
+  const conversion = thermConversionWarning(sourceUnit, [thermFactor]);
+  if (conversion) warnings.push(conversion);
+  const intervalWarning = detectGasIntervalWarning(normalized);
+  if (intervalWarning) warnings.push(intervalWarning);
+
+  return { readings: normalized, warnings, format: 'espi-xml', sourceUnit };
+};
@@ -0,0 +1,47 @@
+// TOU holiday calendar, generated by rule for any year. PG&E, SCE and SDG&E price these days like
+// weekends on their TOU schedules: the six NERC holidays (New Year's, Memorial Day, Independence
+// Day, Labor Day, Thanksgiving, Christmas) plus Presidents' Day and Veterans Day. A fixed-date
+// holiday that falls on a Sunday is observed the following Monday.
+
+const dayKey = (year: number, monthIndex: number, day: number): string =>
+  `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// nth (1-based) weekday of a month; n = -1 for the last
+const nthWeekday = (year: number, monthIndex: number, weekday: number, n: number): number => {
+  if (n > 0) {
+    const firstDow = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+    return 1 + ((weekday - firstDow + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  const lastDow = new Date(Date.UTC(year, monthIndex, lastDay)).getUTCDay();
+  return lastDay - ((lastDow - weekday + 7) % 7);
+};
+
+const observedFixedDate = (year: number, monthIndex: number, day: number): string => {
+  const dow = new Date(Date.UTC(year, monthIndex, day)).getUTCDay();
+  return dow === 0 ? dayKey(year, monthIndex, day + 1) : dayKey(year, monthIndex, day);
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+// Observed TOU holidays in a year, as utility-local YYYY-MM-DD day keys
+export const getTouHolidays = (year: number): Set<string> => {
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    holidays = new Set([
+      observedFixedDate(year, 0, 1),                 // New Year's Day
+      dayKey(year, 1, nthWeekday(year, 1, 1, 3)),    // Presidents' Day — 3rd Monday in February
+      dayKey(year, 4, nthWeekday(year, 4, 1, -1)),   // Memorial Day — last Monday in May
+      observedFixedDate(year, 6, 4),                 // Independence Day
+      dayKey(year, 8, nthWeekday(year, 8, 1, 1)),    // Labor Day — 1st Monday in September
+      observedFixedDate(year, 10, 11),               // Veterans Day
+      dayKey(year, 10, nthWeekday(year, 10, 4, 4)),  // Thanksgiving — 4th Thursday in November
+      observedFixedDate(year, 11, 25)                // Christmas Day
+    ]);
+    holidayCache.set(year, holidays);
+  }
+  return holidays;
+};
+
+export const isTouHoliday = (year: number, monthIndex: number, day: number): boolean =>
+  getTouHolidays(year).has(dayKey(year, monthIndex, day));
@@ -0,0 +1,40 @@
+import { CustomerProfile, IncomeTierCharges, RateVersion, Tariff, VolumetricRate } from '../types';
+import { DEFAULT_SEASONS, SUMMER_SEASON, getSeasonalRate } from './seasons';
+import { getTierRate, getTierSchedule } from './rateTiers';
+
+// Income-graduated fixed charge. California's fixed charge depends on the customer's income tier
+// (CARE, FERA or standard), with per-kWh rate adjustments to match. A tariff or rate version
+// lists the charges per tier; tiers it doesn't list pay the version's fixedMonthlyCharge.
+
+export const getIncomeTierCharges = (
+  version: Pick<RateVersion, 'fixedMonthlyCharge' | 'incomeTierCharges'>,
+  customer: CustomerProfile = {}
+): Required<IncomeTierCharges> => {
+  const charges = version.incomeTierCharges?.[customer.incomeTier ?? 'standard'];
+  return {
+    fixedMonthlyCharge: charges?.fixedMonthlyCharge ?? version.fixedMonthlyCharge,
+    volumetricAdjustment: charges?.volumetricAdjustment ?? 0
+  };
+};
+
+// Current per-kWh rates as the customer pays them: one entry per TOU period, or per tier for
+// tiered tariffs, in the summer season and the tariff's other (winter) season.
+export const getCustomerVolumetricRates = (tariff: Tariff, customer: CustomerProfile = {}): VolumetricRate[] => {
+  const { volumetricAdjustment } = getIncomeTierCharges(tariff, customer);
+  const seasons = tariff.seasons?.length ? tariff.seasons : DEFAULT_SEASONS;
+  const winter = seasons.find(s => s.name !== SUMMER_SEASON)?.name ?? SUMMER_SEASON;
+
+  if (tariff.type === 'tou') {
+    return tariff.periods.map(p => ({
+      name: p.name,
+      rate: getSeasonalRate(p, winter) + volumetricAdjustment,
+      summerRate: getSeasonalRate(p, SUMMER_SEASON) + volumetricAdjustment
+    }));
+  }
+  const period = tariff.periods[0];
+  return getTierSchedule(tariff, period).map(tier => ({
+    name: tier.name,
+    rate: getTierRate(tier, period, winter) + volumetricAdjustment,
+    summerRate: getTierRate(tier, period, SUMMER_SEASON) + volumetricAdjustment
+  }));
+};
@@ -0,0 +1,32 @@
+import { ProviderType } from '../types';
+import { IntervalFileFormat, PgeCsvParseResult, parsePgeIntervalCsv } from './pgeCsvParser';
+import { looksLikeSceCsv, parseSceIntervalCsv } from './sceCsvParser';
+import { looksLikeSdgeCsv, parseSdgeIntervalCsv } from './sdgeCsvParser';
+import { parseCsvRows } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE } from './timeZone';
+
+// Detect which utility's CSV layout this is. PG&E is the fallback — its parser has the most
+// forgiving header heuristics and handles generic Green Button CSVs too.
+export const detectIntervalCsvFormat = (csvText: string): IntervalFileFormat => {
+  const rows = parseCsvRows(csvText);
+  if (looksLikeSceCsv(rows)) return 'sce-csv';
+  if (looksLikeSdgeCsv(rows)) return 'sdge-csv';
+  return 'pge-csv';
+};
+
+// CSV exports print utility wall-clock times, read in `timeZone`
+export const parseIntervalCsv = (csvText: string, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): PgeCsvParseResult => {
+  const format = detectIntervalCsvFormat(csvText);
+  if (format === 'sce-csv') return parseSceIntervalCsv(csvText, timeZone);
+  if (format === 'sdge-csv') return parseSdgeIntervalCsv(csvText, timeZone);
+  return parsePgeIntervalCsv(csvText, timeZone);
+};
+
+// Provider to pre-select for a detected format. PG&E exports keep an MCE selection since
+// CCA customers download the same PG&E file. Returns null when the format doesn't say.
+export const providerForFormat = (format: IntervalFileFormat | undefined, current: ProviderType | null): ProviderType | null => {
+  if (format === 'sce-csv') return 'sce-bundled';
+  if (format === 'sdge-csv') return 'sdge-bundled';
+  if (format === 'pge-csv') return current === 'mce-pge' ? 'mce-pge' : 'pge-bundled';
+  return null;
+};
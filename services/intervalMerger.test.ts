@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { EnergyReading } from '../types';
+import { IntervalSourceFile, mergeIntervalFiles } from './intervalMerger';
+
+const HOUR_MS = 60 * 60 * 1000;
+const base = Date.UTC(2025, 0, 6, 8); // midnight Pacific
+
+// Readings at the given interval offsets (in units of intervalMs) from base
+const readingsAt = (offsets: number[], intervalMs: number, value: number): EnergyReading[] =>
+  offsets.map(i => ({ timestamp: new Date(base + i * intervalMs), value }));
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+const source = (
+  fileName: string,
+  readings: EnergyReading[],
+  lastModified = 0,
+  timeZone = 'America/Los_Angeles'
+): IntervalSourceFile => ({
+  fileName,
+  lastModified,
+  result: { readings, warnings: [], timeZone }
+});
+
+describe('mergeIntervalFiles', () => {
+  it('prefers the newer file where both have a reading', () => {
+    const older = source('older.csv', readingsAt(range(0, 48), HOUR_MS, 1));
+    const newer = source('newer.csv', readingsAt(range(24, 72), HOUR_MS, 2));
+    const { readings, sources } = mergeIntervalFiles([older, newer]);
+
+    expect(readings).toHaveLength(72);
+    expect(readings.slice(0, 24).every(r => r.value === 1)).toBe(true);
+    expect(readings.slice(24).every(r => r.value === 2)).toBe(true);
+    expect(sources.map(s => s.keptCount)).toEqual([24, 48]);
+  });
+
+  it('fills gaps in the newer file from older data', () => {
+    const older = source('older.csv', readingsAt(range(0, 60), HOUR_MS, 1));
+    // The newer download is missing hours 30–35
+    const newer = source('newer.csv', readingsAt([...range(24, 30), ...range(36, 72)], HOUR_MS, 2));
+    const { readings } = mergeIntervalFiles([older, newer]);
+
+    expect(readings).toHaveLength(72);
+    expect(readings.slice(30, 36).map(r => r.value)).toEqual([1, 1, 1, 1, 1, 1]);
+    expect(readings[36].value).toBe(2);
+  });
+
+  it('never double counts finer older readings inside a newer hourly reading', () => {
+    const older = source('older-15min.csv', readingsAt(range(0, 4 * 48), HOUR_MS / 4, 0.25));
+    const newer = source('newer-hourly.csv', readingsAt(range(24, 72), HOUR_MS, 1));
+    const { readings } = mergeIntervalFiles([older, newer]);
+
+    const total = readings.reduce((s, r) => s + r.value, 0);
+    expect(total).toBeCloseTo(72);
+  });
+
+  it('drops an older hourly reading when the newer 15-minute file covers part of that hour', () => {
+    const older = source('older-hourly.csv', readingsAt(range(0, 24), HOUR_MS, 1));
+    // The newer download is missing the 10:00 and 10:15 quarters
+    const quarters = range(0, 4 * 30).filter(q => q !== 40 && q !== 41);
+    const newer = source('newer-15min.csv', readingsAt(quarters, HOUR_MS / 4, 0.25));
+    const { readings } = mergeIntervalFiles([older, newer]);
+
+    const tenAm = readings.filter(r => r.timestamp.getTime() >= base + 10 * HOUR_MS && r.timestamp.getTime() < base + 11 * HOUR_MS);
+    expect(tenAm.reduce((s, r) => s + r.value, 0)).toBeCloseTo(0.5);
+    expect(tenAm.every(r => r.value === 0.25)).toBe(true);
+  });
+
+  it('ranks files by their last reading, then by modification time', () => {
+    const a = source('a.csv', readingsAt(range(0, 24), HOUR_MS, 1), 2);
+    const b = source('b.csv', readingsAt(range(0, 24), HOUR_MS, 2), 1);
+    const { readings, warnings } = mergeIntervalFiles([b, a]);
+
+    expect(readings.every(r => r.value === 1)).toBe(true);
+    expect(warnings.some(w => /overlapped a newer download/.test(w))).toBe(true);
+  });
+
+  it('keeps the time zone of each file and uses the newest one for the timeline', () => {
+    const older = source('older.csv', readingsAt(range(0, 24), HOUR_MS, 1), 0, 'America/Denver');
+    const newer = source('newer.csv', readingsAt(range(24, 48), HOUR_MS, 1));
+    const { timeZone, sources, warnings } = mergeIntervalFiles([older, newer]);
+
+    expect(timeZone).toBe('America/Los_Angeles');
+    expect(sources.map(s => s.timeZone)).toEqual(['America/Denver', 'America/Los_Angeles']);
+    expect(warnings.some(w => /different time zones/.test(w))).toBe(true);
+  });
+});
@@ -0,0 +1,183 @@
+import { EnergyReading } from '../types';
+import { IntervalFileFormat, PgeCsvParseResult } from './pgeCsvParser';
+import { startOfZonedDay, zonedDayKey } from './timeZone';
+import { medianIntervalMs } from './csvUtils';
+
+export interface IntervalSourceFile {
+  fileName: string;
+  lastModified: number; // File.lastModified (ms) — tie-breaker when two files end on the same date
+  result: PgeCsvParseResult;
+}
+
+export interface MergedSourceSummary {
+  fileName: string;
+  format?: IntervalFileFormat;
+  timeZone: string; // utility zone the file's times were read in
+  start: Date;
+  end: Date;
+  readingCount: number;
+  keptCount: number; // readings that survived overlap resolution
+}
+
+export interface SourceDisagreement {
+  day: string;         // YYYY-MM-DD
+  newerFile: string;
+  olderFile: string;
+  newerKwh: number;
+  olderKwh: number;
+}
+
+export interface IntervalMergeResult {
+  readings: EnergyReading[];
+  timeZone: string | null; // the newest file's utility zone; null when no file had readings
+  warnings: string[];
+  sources: MergedSourceSummary[];
+  disagreements: SourceDisagreement[];
+}
+
+// Daily totals may differ slightly between downloads (rounding, late meter reads)
+const DEFAULT_DAILY_TOLERANCE_KWH = 0.5;
+
+// Totals per utility-local calendar day
+const dailyTotals = (readings: EnergyReading[], timeZone: string): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const r of readings) {
+    const key = zonedDayKey(r.timestamp, timeZone);
+    totals.set(key, (totals.get(key) ?? 0) + r.value);
+  }
+  return totals;
+};
+
+// True when one of the file's readings (sorted start times, each lasting intervalMs) overlaps
+// [from, to). The last reading starting before `to` ends latest, so it alone decides.
+const overlapsSpan = (times: number[], intervalMs: number, from: number, to: number): boolean => {
+  let lo = 0;
+  let hi = times.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < to) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 && times[found] + intervalMs > from;
+};
+
+// Merge several parsed interval files into one continuous timeline.
+// Files are ranked newest first (latest data end date, then File.lastModified). Where files
+// overlap, the newer file's reading wins; an older reading is kept only where no newer reading
+// overlaps any part of its interval, so it fills the newer file's gaps. Overlap uses each file's
+// own interval length, so a 15-minute export and an hourly export of the same days are never
+// double counted, whichever of them is newer.
+export const mergeIntervalFiles = (
+  files: IntervalSourceFile[],
+  dailyToleranceKwh: number = DEFAULT_DAILY_TOLERANCE_KWH
+): IntervalMergeResult => {
+  const warnings: string[] = [];
+  const usable = files.filter(f => f.result.readings.length > 0);
+  if (usable.length === 0) {
+    return { readings: [], timeZone: null, warnings, sources: [], disagreements: [] };
+  }
+
+  const ranked = usable
+    .map(f => {
+      const readings = f.result.readings;
+      const start = readings[0].timestamp;
+      const end = readings[readings.length - 1].timestamp;
+      const intervalMs = medianIntervalMs(readings);
+      return { file: f, start, end, intervalMs, spanEnd: end.getTime() + intervalMs };
+    })
+    .sort((a, b) => (b.end.getTime() - a.end.getTime()) || (b.file.lastModified - a.file.lastModified));
+
+  // Each file keeps its own zone; the merged timeline (and day comparisons) use the newest file's
+  const timeZone = ranked[0].file.result.timeZone;
+
+  const claimed: Array<{
+    start: number;
+    end: number;
+    times: number[];
+    intervalMs: number;
+    fileName: string;
+    totals: Map<string, number>;
+  }> = [];
+  const merged: EnergyReading[] = [];
+  const sources: MergedSourceSummary[] = [];
+  const disagreements: SourceDisagreement[] = [];
+  let overlapFiles = 0;
+
+  for (const entry of ranked) {
+    const { file, start, end, intervalMs, spanEnd } = entry;
+    const totals = dailyTotals(file.result.readings, timeZone);
+
+    let kept = 0;
+    let hadOverlap = false;
+    for (const r of file.result.readings) {
+      const t = r.timestamp.getTime();
+      if (claimed.some(c => overlapsSpan(c.times, c.intervalMs, t, t + intervalMs))) {
+        hadOverlap = true;
+        continue;
+      }
+      merged.push(r);
+      kept++;
+    }
+    if (hadOverlap) overlapFiles++;
+
+    // Compare whole days both files fully cover (skip each file's partial first/last day)
+    const firstDay = zonedDayKey(start, timeZone);
+    const lastDay = zonedDayKey(end, timeZone);
+    for (const c of claimed) {
+      for (const [day, olderKwh] of totals) {
+        const newerKwh = c.totals.get(day);
+        if (newerKwh == null) continue;
+        if (day === firstDay || day === lastDay) continue;
+        const [y, m, d] = day.split('-').map(Number);
+        const dayStart = startOfZonedDay(new Date(Date.UTC(y, m - 1, d, 12)), timeZone).getTime();
+        if (dayStart < c.start || dayStart + 86400000 > c.end) continue;
+        if (Math.abs(newerKwh - olderKwh) > dailyToleranceKwh) {
+          disagreements.push({ day, newerFile: c.fileName, olderFile: file.fileName, newerKwh, olderKwh });
+        }
+      }
+    }
+
+    const times = file.result.readings.map(r => r.timestamp.getTime()).sort((a, b) => a - b);
+    claimed.push({ start: start.getTime(), end: spanEnd, times, intervalMs, fileName: file.fileName, totals });
+    sources.push({
+      fileName: file.fileName,
+      format: file.result.format,
+      timeZone: file.result.timeZone,
+      start,
+      end,
+      readingCount: file.result.readings.length,
+      keptCount: kept
+    });
+  }
+
+  merged.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  if (usable.length > 1) {
+    warnings.push(`Merged ${usable.length} files into one timeline (${merged.length.toLocaleString()} readings).`);
+  }
+  if (overlapFiles > 0) {
+    warnings.push(`${overlapFiles} file(s) overlapped a newer download. Overlapping intervals use the newer file; older files fill its gaps.`);
+  }
+  const otherZones = new Set(sources.map(s => s.timeZone).filter(z => z !== timeZone));
+  if (otherZones.size > 0) {
+    warnings.push(`Files were read in different time zones (${[timeZone, ...otherZones].join(', ')}). Using ${timeZone} from the newest file.`);
+  }
+  if (disagreements.length > 0) {
+    disagreements.sort((a, b) => a.day.localeCompare(b.day));
+    const sample = disagreements.slice(0, 5)
+      .map(d => `${d.day} (${d.newerKwh.toFixed(1)} vs ${d.olderKwh.toFixed(1)} kWh)`)
+      .join(', ');
+    const more = disagreements.length > 5 ? ` and ${disagreements.length - 5} more` : '';
+    warnings.push(`Files disagree by more than ${dailyToleranceKwh} kWh on ${disagreements.length} day(s): ${sample}${more}.`);
+  }
+
+  // Keep the source list in chronological order for display
+  sources.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return { readings: merged, timeZone, warnings, sources, disagreements };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { buildBillingCycles } from './billingCycles';
+import { calculateNemTrueUp, groupTrueUpPeriods } from './nemCalculator';
+import { dailyReadings, singleRateTariff } from './testFixtures';
+
+const options = { nbcRate: 0.02, nscRate: 0.05, minimumDelivery: 10, climateCredit: 0 };
+
+describe('groupTrueUpPeriods', () => {
+  const months = ['2025-01', '2025-02', '2025-03', '2025-04'];
+
+  it('starts at the first month of data by default', () => {
+    expect(groupTrueUpPeriods(months, m => m)).toEqual([months]);
+  });
+
+  it('splits at the anniversary month', () => {
+    expect(groupTrueUpPeriods(months, m => m, 3)).toEqual([['2025-01', '2025-02'], ['2025-03', '2025-04']]);
+  });
+
+  it('keeps cycles that share a statement month in the same period', () => {
+    const cycles = [{ month: '2025-02' }, { month: '2025-03' }, { month: '2025-03' }];
+    expect(groupTrueUpPeriods(cycles, c => c.month, 3)).toEqual([[cycles[0]], [cycles[1], cycles[2]]]);
+  });
+});
+
+describe('calculateNemTrueUp', () => {
+  it('nets imports against exports in the running balance', () => {
+    const readings = [...dailyReadings(2025, 0, 10), ...dailyReadings(2025, 1, -10)];
+    const result = calculateNemTrueUp(readings, singleRateTariff, options);
+
+    const [jan, feb] = result.months;
+    expect(jan.netCost).toBeCloseTo(310 * 0.30);
+    expect(jan.nbcCost).toBeCloseTo(310 * 0.02);
+    expect(jan.statementAmount).toBeCloseTo(93);
+    // Net-export month: nothing consumed, so no NBCs; the credit offsets January's charges
+    expect(feb.netCost).toBeCloseTo(-280 * 0.30);
+    expect(feb.nbcCost).toBe(0);
+    expect(feb.statementAmount).toBe(10);
+    expect(feb.runningBalance).toBeCloseTo(93 + 6.2 - 84);
+
+    const [period] = result.periods;
+    expect(period.netKwh).toBeCloseTo(30);
+    expect(period.netSurplusKwh).toBe(0);
+    // The minimum delivery charges already paid count toward the balance
+    expect(period.amountDue).toBe(0);
+    expect(result.annualCost).toBeCloseTo(20);
+    expect(result.isCca).toBe(false);
+  });
+
+  it('pays Net Surplus Compensation to annual net exporters', () => {
+    const readings = [...dailyReadings(2025, 0, 5), ...dailyReadings(2025, 1, -10)];
+    const result = calculateNemTrueUp(readings, singleRateTariff, options);
+
+    const [period] = result.periods;
+    expect(period.netKwh).toBeCloseTo(155 - 280);
+    expect(period.netSurplusKwh).toBeCloseTo(125);
+    expect(period.netSurplusCompensation).toBeCloseTo(125 * 0.05);
+    expect(result.annualCost).toBeCloseTo(20 - 125 * 0.05);
+  });
+
+  it('settles each true-up period at the anniversary month', () => {
+    const readings = [0, 1, 2, 3].flatMap(m => dailyReadings(2025, m, 10));
+    const result = calculateNemTrueUp(readings, singleRateTariff, { ...options, anniversaryMonth: 3 });
+
+    expect(result.periods.map(p => [p.startMonth, p.endMonth])).toEqual([['2025-01', '2025-02'], ['2025-03', '2025-04']]);
+    expect(result.periods[0].isComplete).toBe(true);
+    expect(result.periods[1].isComplete).toBe(false);
+    // The balance restarts after each true-up
+    expect(result.months[2].runningBalance).toBeCloseTo(31 * 10 * (0.30 + 0.02));
+  });
+
+  it('applies the Climate Credit in April and October', () => {
+    const readings = [2, 3, 8, 9].flatMap(m => dailyReadings(2025, m, 10));
+    const result = calculateNemTrueUp(readings, singleRateTariff, { ...options, climateCredit: 50 });
+
+    expect(result.months.map(m => m.climateCredit)).toEqual([0, 50, 0, 50]);
+    expect(result.months[1].statementAmount).toBeCloseTo(result.months[1].electricityStatement - 50);
+    expect(result.totalClimateCredits).toBe(100);
+  });
+
+  it('credits the Climate Credit once when two cycles end in April', () => {
+    const readings = [2, 3, 4].flatMap(m => dailyReadings(2025, m, 10));
+    const billingCycles = buildBillingCycles(['2025-03-31', '2025-04-02', '2025-04-30', '2025-05-31'], '2025-03-01', '2025-05-31');
+    const result = calculateNemTrueUp(readings, singleRateTariff, { ...options, climateCredit: 50, billingCycles });
+
+    const april = result.months.filter(m => m.month === '2025-04');
+    expect(april.map(m => m.monthName)).toEqual(['2025-04-02', '2025-04-30']);
+    expect(april.map(m => m.climateCredit)).toEqual([50, 0]);
+    expect(result.totalClimateCredits).toBe(50);
+  });
+});
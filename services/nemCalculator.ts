@@ -0,0 +1,203 @@
+import { CustomerProfile, EnergyReading, Tariff } from '../types';
+import { calculateDetailedCost, calculateMonthlyDeliveryCost, calculateMonthlyGrossConsumption } from './energyCalculator';
+import { DEFAULT_UTILITY_TIME_ZONE } from './timeZone';
+import { BillingPeriod } from './billingCycles';
+import { isCcaTariff } from './tariffComposition';
+
+// NEM 2 true-up model. Monthly statements carry the minimum delivery charge (or, for MCE/CCA
+// customers, generation charges); everything else accrues to a running balance that settles at
+// the 12-month true-up anniversary. Annual net exporters are paid Net Surplus Compensation for
+// their surplus kWh instead of keeping a dollar credit.
+
+export const NEM_MIN_DELIVERY = 13.30; // PG&E minimum monthly delivery charge paid regardless
+// Non-Bypassable Charges: PPP + nuclear decom + CTC + wildfire fund ≈ $0.035/kWh
+// These apply to ALL gross grid consumption and defer to True-Up (NEM customers can't offset them)
+export const NEM_NBC_RATE = 0.035;
+// Net Surplus Compensation: 12-month rolling average wholesale price, published monthly (~$0.03–0.06/kWh)
+export const NEM_NSC_RATE = 0.045;
+// California Climate Credit on residential electric bills, credited in these billing months (0-11)
+export const CLIMATE_CREDIT_MONTHS = [3, 9];
+
+export interface NemTrueUpMonth {
+  monthName: string;            // period key (see MonthlyBreakdown)
+  month: string;                // YYYY-MM statement month
+  usage: number;                // net kWh
+  netCost: number;              // tariff cost of the net usage, including fixed charges
+  deliveryCost: number;         // accrues to true-up (bundled: the full net cost)
+  generationCost: number;       // MCE: paid on the monthly statement; bundled: 0
+  electricityStatement: number;
+  pciaCost: number;
+  nbcCost: number;
+  climateCredit: number;
+  statementAmount: number;      // amount due this month
+  runningBalance: number;       // true-up balance so far in this true-up period
+}
+
+export interface NemTrueUpPeriod {
+  startMonth: string;
+  endMonth: string;
+  months: number;
+  netKwh: number;
+  trueUpBalance: number;          // accrued balance at the anniversary (negative = credit)
+  netSurplusKwh: number;          // kWh exported beyond consumption over the period
+  netSurplusCompensation: number; // NSC paid for the surplus; any leftover dollar credit is forfeited
+  amountDue: number;              // charged at true-up, after statements already paid
+  isComplete: boolean;            // false while the period is still running (projected)
+}
+
+export interface NemTrueUpResult {
+  months: NemTrueUpMonth[];
+  periods: NemTrueUpPeriod[];
+  trueUpBalance: number;          // balance of the latest (current) true-up period
+  totalStatements: number;
+  totalClimateCredits: number;
+  netSurplusCompensation: number;
+  isCca: boolean;                 // CCA split: generation on monthly statements, delivery deferred
+  annualCost: number;             // statements + true-up charges − NSC across all periods
+}
+
+export interface NemTrueUpOptions {
+  timeZone?: string;
+  customer?: CustomerProfile;     // baseline territory for tiered tariffs
+  billingCycles?: BillingPeriod[]; // meter-read cycles; calendar months when absent
+  anniversaryMonth?: number;      // 1-12; defaults to the first month of data
+  minimumDelivery?: number;
+  nbcRate?: number;
+  nscRate?: number;
+  climateCredit?: number;         // per credited month; 0 disables
+}
+
+// Split sorted billing periods into true-up periods by their YYYY-MM statement month. Each period
+// runs from the anniversary month (or the first month of data when no anniversary is set) for 12
+// calendar months; a leading partial period covers data that starts mid-cycle. Gaps in the data
+// never stretch a period.
+export const groupTrueUpPeriods = <T>(entries: T[], monthOf: (entry: T) => string, anniversaryMonth?: number): T[][] => {
+  if (entries.length === 0) return [];
+  const monthIndex = (key: string) => Number(key.slice(0, 4)) * 12 + Number(key.slice(5, 7)) - 1;
+  const origin = anniversaryMonth != null ? anniversaryMonth - 1 : monthIndex(monthOf(entries[0]));
+
+  const periods = new Map<number, T[]>();
+  for (const entry of entries) {
+    const period = Math.floor((monthIndex(monthOf(entry)) - origin) / 12);
+    if (!periods.has(period)) periods.set(period, []);
+    periods.get(period)!.push(entry);
+  }
+  return Array.from(periods.values());
+};
+
+export const calculateNemTrueUp = (
+  readings: EnergyReading[],
+  tariff: Tariff,
+  options: NemTrueUpOptions = {}
+): NemTrueUpResult => {
+  const timeZone = options.timeZone ?? DEFAULT_UTILITY_TIME_ZONE;
+  const minimumDelivery = options.minimumDelivery ?? NEM_MIN_DELIVERY;
+  const nbcRate = options.nbcRate ?? NEM_NBC_RATE;
+  const nscRate = options.nscRate ?? NEM_NSC_RATE;
+  const climateCreditAmount = options.climateCredit ?? 0;
+
+  const breakdown = calculateDetailedCost(readings, tariff, timeZone, options.customer, options.billingCycles).breakdown;
+  const sorted = [...breakdown].sort((a, b) => a.monthName.localeCompare(b.monthName));
+
+  // MCE/CCA customers pay generation monthly; bundled plans list delivery rates too, but their
+  // whole bill defers to the true-up
+  const isCca = isCcaTariff(tariff);
+  const deliveryByMonth = isCca ? calculateMonthlyDeliveryCost(readings, tariff, timeZone, options.billingCycles, options.customer) : {};
+
+  // Gross consumption per month (imports only) for NBCs
+  const grossByMonth = calculateMonthlyGrossConsumption(readings, timeZone, options.billingCycles);
+
+  const monthlyCredit = tariff.monthlyCredit ?? 0;
+
+  const monthGroups = groupTrueUpPeriods(sorted, m => m.month, options.anniversaryMonth);
+  // A short cycle can share its statement month with the previous one; credit it once
+  const climateCredited = new Set<string>();
+
+  const months: NemTrueUpMonth[] = [];
+  const periods: NemTrueUpPeriod[] = [];
+
+  monthGroups.forEach((group, gi) => {
+    let runningBalance = 0;
+    const periodMonths: NemTrueUpMonth[] = [];
+
+    for (const m of group) {
+      const { monthName, month } = m;
+      // PCIA is billed per period in the breakdown (CCA tariffs only); NEM defers it to the True-Up
+      const pciaCost = m.components?.pcia ?? 0;
+      const totalCost = m.cost - pciaCost;
+      const grossConsumption = grossByMonth[monthName] ?? Math.max(0, m.usage);
+      // NBCs on gross consumption — deferred to True-Up
+      const nbcCost = nbcRate * grossConsumption;
+      const climateCredit = CLIMATE_CREDIT_MONTHS.includes(Number(month.slice(5, 7)) - 1) && !climateCredited.has(month)
+        ? climateCreditAmount
+        : 0;
+      if (climateCredit > 0) climateCredited.add(month);
+
+      let entry: NemTrueUpMonth;
+      if (isCca) {
+        // MCE NEM model: generation paid monthly; delivery + PCIA + NBCs defer to True-Up
+        const deliveryCost = deliveryByMonth[monthName] ?? 0;
+        const generationCost = totalCost - deliveryCost; // generation + fixed charges
+        // Monthly statement: generation + minimum delivery + any monthly credits
+        const electricityStatement = generationCost + minimumDelivery;
+        runningBalance += deliveryCost + nbcCost + pciaCost;
+        entry = {
+          monthName, month, usage: m.usage, netCost: totalCost, deliveryCost, generationCost, electricityStatement,
+          pciaCost, nbcCost, climateCredit, statementAmount: electricityStatement + monthlyCredit - climateCredit, runningBalance
+        };
+      } else {
+        // PG&E bundled NEM: full cost defers, plus NBCs
+        const electricityStatement = totalCost > minimumDelivery ? totalCost : minimumDelivery;
+        runningBalance += totalCost + nbcCost;
+        entry = {
+          monthName, month, usage: m.usage, netCost: totalCost, deliveryCost: totalCost, generationCost: 0, electricityStatement,
+          pciaCost, nbcCost, climateCredit, statementAmount: electricityStatement + monthlyCredit - climateCredit, runningBalance
+        };
+      }
+      periodMonths.push(entry);
+    }
+
+    const netKwh = periodMonths.reduce((s, m) => s + m.usage, 0);
+    const netSurplusKwh = Math.max(0, -netKwh);
+    const netSurplusCompensation = netSurplusKwh * nscRate;
+    // Bundled customers have already paid the minimum delivery charge each month; only the
+    // balance above that is due. MCE statements already covered generation.
+    const amountDue = isCca
+      ? Math.max(0, runningBalance)
+      : Math.max(0, runningBalance - periodMonths.length * minimumDelivery);
+
+    months.push(...periodMonths);
+    periods.push({
+      startMonth: group[0].month,
+      endMonth: group[group.length - 1].month,
+      months: group.length,
+      netKwh,
+      trueUpBalance: runningBalance,
+      netSurplusKwh,
+      netSurplusCompensation,
+      amountDue,
+      isComplete: group.length === 12 || gi < monthGroups.length - 1
+    });
+  });
+
+  const totalStatements = months.reduce((s, m) => s + m.statementAmount, 0);
+  const totalClimateCredits = months.reduce((s, m) => s + m.climateCredit, 0);
+  const netSurplusCompensation = periods.reduce((s, p) => s + p.netSurplusCompensation, 0);
+  // What is actually paid: MCE statements plus any true-up owed; bundled customers pay the
+  // minimum delivery charge monthly (less Climate Credits) and the rest of the balance at true-up
+  const trueUpCharges = periods.reduce((s, p) => s + p.amountDue, 0);
+  const annualCost = isCca
+    ? totalStatements + trueUpCharges - netSurplusCompensation
+    : months.length * minimumDelivery + trueUpCharges - totalClimateCredits - netSurplusCompensation;
+
+  return {
+    months,
+    periods,
+    trueUpBalance: periods[periods.length - 1]?.trueUpBalance ?? 0,
+    totalStatements,
+    totalClimateCredits,
+    netSurplusCompensation,
+    isCca,
+    annualCost
+  };
+};
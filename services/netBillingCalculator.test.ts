@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Tariff } from '../types';
+import { calculateNetBilling, DEFAULT_EXPORT_RATE_TABLE, ExportRateTable, getExportRate, loadExportRateTable } from './netBillingCalculator';
+import { dailyChannelReadings, singleRateTariff } from './testFixtures';
+
+// The shared single-rate tariff with a $10 fixed charge
+const tariff: Tariff = { ...singleRateTariff, fixedMonthlyCharge: 10 };
+
+// Exports earn $0.10/kWh on weekdays and $0.04/kWh on weekends, at every hour
+const table: ExportRateTable = loadExportRateTable({
+  name: 'Test export rates',
+  months: Object.fromEntries(Array.from({ length: 12 }, (_, i) => [
+    String(i + 1),
+    { weekday: Array(24).fill(0.10), weekend: Array(24).fill(0.04) }
+  ]))
+});
+
+describe('loadExportRateTable', () => {
+  it('rejects a month without 24 hourly values', () => {
+    expect(() => loadExportRateTable({ months: { 1: { weekday: [0.1], weekend: [0.1] } } })).toThrow(/month 1/);
+  });
+
+  it('marks the bundled table as approximate', () => {
+    expect(DEFAULT_EXPORT_RATE_TABLE.approximate).toBe(true);
+    expect(table.approximate).toBe(false);
+  });
+});
+
+describe('getExportRate', () => {
+  it('uses weekend values on Saturday and Sunday', () => {
+    expect(getExportRate(table, 0, 3, 12)).toBe(0.10);
+    expect(getExportRate(table, 0, 6, 12)).toBe(0.04);
+    expect(getExportRate(table, 0, 0, 12)).toBe(0.04);
+  });
+});
+
+describe('calculateNetBilling', () => {
+  it('credits exports at the hourly export value', () => {
+    // June 2025: 21 weekdays, 9 weekend days
+    const result = calculateNetBilling(dailyChannelReadings(2025, 5, 10, 20), tariff, table);
+
+    const [june] = result.months;
+    expect(june.importKwh).toBeCloseTo(300);
+    expect(june.exportKwh).toBeCloseTo(600);
+    expect(june.importCost).toBeCloseTo(300 * 0.30);
+    expect(june.exportCredit).toBeCloseTo(21 * 20 * 0.10 + 9 * 20 * 0.04);
+    expect(result.channelsInferred).toBe(false);
+  });
+
+  it('offsets energy charges only and banks the rest', () => {
+    const readings = [...dailyChannelReadings(2025, 5, 1, 20), ...dailyChannelReadings(2025, 6, 20, 0)];
+    const result = calculateNetBilling(readings, tariff, table);
+
+    const [june, july] = result.months;
+    const juneCredit = 21 * 20 * 0.10 + 9 * 20 * 0.04;
+    expect(june.creditApplied).toBeCloseTo(30 * 0.30);
+    expect(june.creditBank).toBeCloseTo(juneCredit - 9);
+    // Credits never cover the fixed charge
+    expect(june.statementAmount).toBeCloseTo(10);
+    expect(july.creditApplied).toBeCloseTo(juneCredit - 9);
+    expect(july.statementAmount).toBeCloseTo(31 * 20 * 0.30 - (juneCredit - 9) + 10);
+  });
+
+  it('forfeits unused credit at the true-up', () => {
+    const readings = [5, 6, 7].flatMap(m => dailyChannelReadings(2025, m, 1, 20));
+    const result = calculateNetBilling(readings, tariff, table, { anniversaryMonth: 8 });
+
+    expect(result.trueUps.map(t => [t.startMonth, t.endMonth])).toEqual([['2025-06', '2025-07'], ['2025-08', '2025-08']]);
+    const [first, second] = result.trueUps;
+    expect(first.unusedCredit).toBeCloseTo(first.totalExportCredit - 30 * 0.30 - 31 * 0.30);
+    // August starts from an empty bank
+    expect(result.months[2].creditApplied).toBeCloseTo(31 * 0.30);
+    expect(second.unusedCredit).toBeCloseTo(second.totalExportCredit - 31 * 0.30);
+  });
+
+  it('applies the minimum monthly charge as a statement floor', () => {
+    const result = calculateNetBilling(dailyChannelReadings(2025, 5, 1, 20), tariff, table, { minimumMonthlyCharge: 13.30 });
+    expect(result.months[0].statementAmount).toBeCloseTo(13.30);
+  });
+});
@@ -0,0 +1,175 @@
+import { CustomerProfile, EnergyReading, Tariff } from '../types';
+import { calculateDetailedCost } from './energyCalculator';
+import { DEFAULT_UTILITY_TIME_ZONE, getZonedParts } from './timeZone';
+import { getExportKwh, getImportKwh, hasChannelData } from './readingChannels';
+import { groupTrueUpPeriods } from './nemCalculator';
+import { BillingPeriod, createBillingPeriodResolver } from './billingCycles';
+import bundledExportRates from '../data/nbtExportRates.json';
+
+// Net Billing Tariff (NEM 3.0): imports are billed at the retail tariff, exports earn hourly
+// Avoided Cost Calculator (ACC) values that vary by month, weekday/weekend and hour. Export credits
+// offset energy charges only and roll forward month to month until the 12-month true-up.
+
+export interface ExportRateTable {
+  name: string;
+  source?: string;
+  approximate?: boolean; // illustrative values, not the utility's published export rates
+  // Month "1"–"12" → 24 hourly $/kWh export values (hour 0 = midnight–1 AM, utility local time)
+  months: Record<string, { weekday: number[]; weekend: number[] }>;
+}
+
+export interface NetBillingMonth {
+  monthName: string;      // period key (see MonthlyBreakdown)
+  month: string;          // YYYY-MM statement month
+  importKwh: number;
+  exportKwh: number;
+  importCost: number;     // energy charges on imported kWh at the retail tariff
+  fixedCharge: number;
+  exportCredit: number;   // exported kWh × hourly export value
+  creditApplied: number;  // credit (this month's + banked) used against this month's energy charges
+  creditBank: number;     // unused credit carried forward after this month
+  statementAmount: number;
+}
+
+export interface NetBillingTrueUp {
+  startMonth: string;
+  endMonth: string;
+  totalStatements: number;
+  totalExportCredit: number;
+  unusedCredit: number;   // banked credit left at the true-up (not paid out)
+}
+
+export interface NetBillingResult {
+  tableName: string;
+  approximateRates: boolean;
+  months: NetBillingMonth[];
+  trueUps: NetBillingTrueUp[];
+  totalStatements: number;
+  totalExportCredit: number;
+  channelsInferred: boolean; // net-only data: import/export inferred from each interval's net sign
+}
+
+export interface NetBillingOptions {
+  timeZone?: string;
+  customer?: CustomerProfile;    // baseline territory for tiered tariffs
+  billingCycles?: BillingPeriod[]; // meter-read cycles; calendar months when absent
+  minimumMonthlyCharge?: number; // statement floor, e.g. PG&E minimum delivery charge
+  anniversaryMonth?: number;     // 1-12 true-up month; defaults to the first month of data
+}
+
+// Validate a parsed export-rate table (bundled JSON or a user-supplied file)
+export const loadExportRateTable = (raw: unknown): ExportRateTable => {
+  const doc = raw as Partial<ExportRateTable> | null;
+  if (!doc || typeof doc !== 'object' || !doc.months || typeof doc.months !== 'object') {
+    throw new Error('Export rate table must have a "months" object.');
+  }
+  const isHourly = (v: unknown): v is number[] =>
+    Array.isArray(v) && v.length === 24 && v.every(x => typeof x === 'number' && Number.isFinite(x));
+
+  const months: ExportRateTable['months'] = {};
+  for (let m = 1; m <= 12; m++) {
+    const entry = doc.months[String(m)];
+    if (!entry || !isHourly(entry.weekday) || !isHourly(entry.weekend)) {
+      throw new Error(`Export rate table month ${m} needs 24 hourly "weekday" and "weekend" values.`);
+    }
+    months[String(m)] = { weekday: entry.weekday, weekend: entry.weekend };
+  }
+  return { name: String(doc.name ?? 'Custom export rates'), source: doc.source, approximate: doc.approximate === true, months };
+};
+
+export const DEFAULT_EXPORT_RATE_TABLE: ExportRateTable = loadExportRateTable(bundledExportRates);
+
+export const getExportRate = (table: ExportRateTable, month: number, weekday: number, hour: number): number => {
+  const entry = table.months[String(month + 1)];
+  const isWeekend = weekday === 0 || weekday === 6;
+  return (isWeekend ? entry.weekend : entry.weekday)[hour];
+};
+
+export const calculateNetBilling = (
+  readings: EnergyReading[],
+  tariff: Tariff,
+  table: ExportRateTable = DEFAULT_EXPORT_RATE_TABLE,
+  options: NetBillingOptions = {}
+): NetBillingResult => {
+  const timeZone = options.timeZone ?? DEFAULT_UTILITY_TIME_ZONE;
+  const minimumMonthlyCharge = options.minimumMonthlyCharge ?? 0;
+
+  // Imports priced on their own — tiers and TOU periods apply to gross imports, not the net
+  const importReadings = readings.map(r => ({ timestamp: r.timestamp, value: getImportKwh(r), estimated: r.estimated }));
+  const importCalc = calculateDetailedCost(importReadings, tariff, timeZone, options.customer, options.billingCycles);
+
+  const resolvePeriod = createBillingPeriodResolver(timeZone, options.billingCycles);
+  const exportByMonth = new Map<string, { kwh: number; credit: number }>();
+  for (const r of readings) {
+    const exported = getExportKwh(r);
+    if (exported <= 0) continue;
+    const { month, hour, weekday } = getZonedParts(r.timestamp, timeZone);
+    const key = resolvePeriod(r.timestamp).key;
+    const entry = exportByMonth.get(key) ?? { kwh: 0, credit: 0 };
+    entry.kwh += exported;
+    entry.credit += exported * getExportRate(table, month, weekday, hour);
+    exportByMonth.set(key, entry);
+  }
+
+  const sorted = [...importCalc.breakdown].sort((a, b) => a.monthName.localeCompare(b.monthName));
+  // Index of the last month in each true-up period
+  const periodEnds = new Set<number>();
+  let seen = 0;
+  for (const group of groupTrueUpPeriods(sorted, b => b.month, options.anniversaryMonth)) {
+    seen += group.length;
+    periodEnds.add(seen - 1);
+  }
+
+  const months: NetBillingMonth[] = [];
+  const trueUps: NetBillingTrueUp[] = [];
+  let creditBank = 0;
+  let periodStart = 0;
+
+  sorted.forEach((b, i) => {
+    const fixedCharge = b.fixedCharge ?? tariff.fixedMonthlyCharge;
+    const importCost = b.cost - fixedCharge;
+    const exported = exportByMonth.get(b.monthName) ?? { kwh: 0, credit: 0 };
+
+    const available = creditBank + exported.credit;
+    const creditApplied = Math.min(available, Math.max(0, importCost));
+    creditBank = available - creditApplied;
+    const statementAmount = Math.max(importCost - creditApplied + fixedCharge, minimumMonthlyCharge);
+
+    months.push({
+      monthName: b.monthName,
+      month: b.month,
+      importKwh: b.usage,
+      exportKwh: exported.kwh,
+      importCost,
+      fixedCharge,
+      exportCredit: exported.credit,
+      creditApplied,
+      creditBank,
+      statementAmount
+    });
+
+    // True-up at each anniversary (or at the end of the data)
+    if (periodEnds.has(i)) {
+      const period = months.slice(periodStart);
+      trueUps.push({
+        startMonth: period[0].month,
+        endMonth: period[period.length - 1].month,
+        totalStatements: period.reduce((s, m) => s + m.statementAmount, 0),
+        totalExportCredit: period.reduce((s, m) => s + m.exportCredit, 0),
+        unusedCredit: creditBank
+      });
+      creditBank = 0;
+      periodStart = i + 1;
+    }
+  });
+
+  return {
+    tableName: table.name,
+    approximateRates: table.approximate === true,
+    months,
+    trueUps,
+    totalStatements: months.reduce((s, m) => s + m.statementAmount, 0),
+    totalExportCredit: months.reduce((s, m) => s + m.exportCredit, 0),
+    channelsInferred: !hasChannelData(readings)
+  };
+};
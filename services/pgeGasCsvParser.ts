@@ -1,180 +1,37 @@
 import { GasReading } from '../types';
+import { medianIntervalMs, normalizeHeader, parseCsvRows, parseNumber, parseDateTime, parseSingleDateTimeField } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE, createWallTimeResolver } from './timeZone';
+import { GasUnit } from './gasUnits';
+
+// Which gas export layout a parser matched
+export type GasFileFormat = 'pge-gas-csv' | 'socalgas-csv' | 'espi-xml';
 
 export interface PgeGasCsvParseResult {
-  readings: GasReading[];
+  readings: GasReading[]; // therms
   warnings: string[];
+  format: GasFileFormat;
+  sourceUnit: GasUnit; // unit the file reported, before conversion to therms
 }
 
-const normalizeHeader = (value: string): string =>
-  value
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .replace(/[()[\]{}]/g, '')
-    .replace(/[^a-z0-9 ]/g, '');
-
-const parseCsvRows = (csvText: string): string[][] => {
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cell = '';
-  let inQuotes = false;
-
-  const pushCell = () => {
-    row.push(cell);
-    cell = '';
-  };
-
-  const pushRow = () => {
-    if (row.some(c => c.trim() !== '')) rows.push(row);
-    row = [];
-  };
-
-  const text = csvText.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-
-    if (ch === '"') {
-      if (inQuotes && text[i + 1] === '"') {
-        cell += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-      continue;
-    }
-
-    if (!inQuotes && ch === ',') {
-      pushCell();
-      continue;
-    }
-
-    if (!inQuotes && ch === '\n') {
-      pushCell();
-      pushRow();
-      continue;
-    }
-
-    cell += ch;
-  }
-
-  pushCell();
-  pushRow();
-  return rows;
-};
-
-const parseNumber = (value: unknown): number | null => {
-  const raw = String(value ?? '').trim();
-  if (!raw) return null;
-
-  const cleaned = raw.replace(/,/g, '');
-  const match = cleaned.match(/-?\d+(?:\.\d+)?/);
-  if (!match) return null;
-
-  const num = Number(match[0]);
-  return Number.isFinite(num) ? num : null;
-};
-
-const parseTime = (timeRaw: string): { hours: number; minutes: number; seconds: number } | null => {
-  const t = timeRaw.trim();
-  if (!t) return null;
-
-  const m = t.match(/^\s*(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?\s*$/i);
-  if (!m) return null;
-
-  let hours = Number(m[1]);
-  const minutes = Number(m[2] ?? '0');
-  const seconds = Number(m[3] ?? '0');
-  const ampm = (m[4] ?? '').toLowerCase();
-
-  if (minutes > 59 || seconds > 59) return null;
-  if (hours > 24) return null;
-
-  if (ampm) {
-    if (hours < 1 || hours > 12) return null;
-    if (ampm === 'pm' && hours !== 12) hours += 12;
-    if (ampm === 'am' && hours === 12) hours = 0;
-  }
-
-  return { hours, minutes, seconds };
-};
-
-const parseUsDate = (dateRaw: string): { year: number; monthIndex: number; day: number } | null => {
-  const d = dateRaw.trim();
-  if (!d) return null;
-
-  // YYYY-MM-DD
-  let m = d.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (m) {
-    const year = Number(m[1]);
-    const monthIndex = Number(m[2]) - 1;
-    const day = Number(m[3]);
-    if (monthIndex < 0 || monthIndex > 11) return null;
-    if (day < 1 || day > 31) return null;
-    return { year, monthIndex, day };
-  }
-
-  // MM/DD/YYYY or M/D/YY
-  m = d.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-  if (m) {
-    const monthIndex = Number(m[1]) - 1;
-    const day = Number(m[2]);
-    let year = Number(m[3]);
-    if (year < 100) year += 2000;
-    if (monthIndex < 0 || monthIndex > 11) return null;
-    if (day < 1 || day > 31) return null;
-    return { year, monthIndex, day };
-  }
-
-  // MM-DD-YYYY
-  m = d.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
-  if (m) {
-    const monthIndex = Number(m[1]) - 1;
-    const day = Number(m[2]);
-    const year = Number(m[3]);
-    if (monthIndex < 0 || monthIndex > 11) return null;
-    if (day < 1 || day > 31) return null;
-    return { year, monthIndex, day };
-  }
-
-  return null;
-};
-
-const parseDateTime = (dateRaw: string, timeRaw?: string): Date | null => {
-  const dateParts = parseUsDate(dateRaw);
-  if (!dateParts) return null;
-
-  let time = { hours: 0, minutes: 0, seconds: 0 };
-  if (timeRaw != null) {
-    const parsedTime = parseTime(timeRaw);
-    if (!parsedTime) return null;
-    time = parsedTime;
+// Sort and sum readings that share a start time
+export const sumGasByTimestamp = (readings: GasReading[]): GasReading[] => {
+  const summed = new Map<number, number>();
+  for (const r of readings) {
+    const key = r.timestamp.getTime();
+    summed.set(key, (summed.get(key) ?? 0) + r.value);
   }
-
-  const dt = new Date(
-    dateParts.year,
-    dateParts.monthIndex,
-    dateParts.day,
-    time.hours,
-    time.minutes,
-    time.seconds,
-    0
-  );
-
-  return Number.isFinite(dt.getTime()) ? dt : null;
+  return Array.from(summed.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([ms, v]) => ({ timestamp: new Date(ms), value: v }));
 };
 
-const parseSingleDateTimeField = (raw: string): Date | null => {
-  const s = raw.trim();
-  if (!s) return null;
-
-  const iso = new Date(s);
-  if (Number.isFinite(iso.getTime())) return iso;
-
-  const m = s.match(/^(.+?)\s+(\d{1,2}(:\d{2})?(:\d{2})?\s*(am|pm)?)$/i);
-  if (m) {
-    return parseDateTime(m[1], m[2]);
+// Gas meters report hourly (smart meters) or daily; flag anything else
+export const detectGasIntervalWarning = (readings: GasReading[]): string | null => {
+  if (readings.length < 3) return null;
+  const hours = Math.round(medianIntervalMs(readings) / (60 * 60 * 1000));
+  if (hours !== 1 && hours !== 24) {
+    return `Detected ~${hours} hour intervals (expected 1 or 24). Data may be aggregated differently.`;
   }
-
   return null;
 };
 
@@ -208,8 +65,10 @@ const detectHeaderRowIndex = (rows: string[][]): number => {
   return bestScore >= 3 ? bestIdx : -1;
 };
 
-export const parsePgeGasCsv = (csvText: string): PgeGasCsvParseResult => {
+export const parsePgeGasCsv = (csvText: string, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): PgeGasCsvParseResult => {
   const warnings: string[] = [];
+  const resolveStart = createWallTimeResolver(timeZone);
+  const resolveEnd = createWallTimeResolver(timeZone);
 
   const rows = parseCsvRows(csvText)
     .map(r => r.map(v => String(v ?? '')))
@@ -267,32 +126,32 @@ export const parsePgeGasCsv = (csvText: string): PgeGasCsvParseResult => {
     let ts: Date | null = null;
 
     if (startDateTimeIdx !== -1) {
-      ts = parseSingleDateTimeField(String(row[startDateTimeIdx] ?? ''));
+      ts = parseSingleDateTimeField(String(row[startDateTimeIdx] ?? ''), resolveStart);
     }
 
     if (!ts && startDateIdx !== -1 && startTimeIdx !== -1) {
-      ts = parseDateTime(String(row[startDateIdx] ?? ''), String(row[startTimeIdx] ?? ''));
+      ts = parseDateTime(String(row[startDateIdx] ?? ''), String(row[startTimeIdx] ?? ''), resolveStart);
     }
 
     if (!ts && dateIdx !== -1 && timeIdx !== -1) {
-      ts = parseDateTime(String(row[dateIdx] ?? ''), String(row[timeIdx] ?? ''));
+      ts = parseDateTime(String(row[dateIdx] ?? ''), String(row[timeIdx] ?? ''), resolveStart);
     }
 
     if (!ts && dateIdx !== -1 && startTimeIdx !== -1) {
-      ts = parseDateTime(String(row[dateIdx] ?? ''), String(row[startTimeIdx] ?? ''));
+      ts = parseDateTime(String(row[dateIdx] ?? ''), String(row[startTimeIdx] ?? ''), resolveStart);
     }
 
     if (!ts && dateIdx !== -1) {
-      ts = parseSingleDateTimeField(String(row[dateIdx] ?? ''));
+      ts = parseSingleDateTimeField(String(row[dateIdx] ?? ''), resolveStart);
     }
 
     if (!ts && endDateTimeIdx !== -1) {
-      const end = parseSingleDateTimeField(String(row[endDateTimeIdx] ?? ''));
+      const end = parseSingleDateTimeField(String(row[endDateTimeIdx] ?? ''), resolveEnd);
       if (end) ts = new Date(end.getTime() - 60 * 60 * 1000); // Gas is usually hourly
     }
 
     if (!ts && endDateIdx !== -1 && endTimeIdx !== -1) {
-      const end = parseDateTime(String(row[endDateIdx] ?? ''), String(row[endTimeIdx] ?? ''));
+      const end = parseDateTime(String(row[endDateIdx] ?? ''), String(row[endTimeIdx] ?? ''), resolveEnd);
       if (end) ts = new Date(end.getTime() - 60 * 60 * 1000);
     }
 
@@ -314,34 +173,15 @@ export const parsePgeGasCsv = (csvText: string): PgeGasCsvParseResult => {
   }
 
   // Sort and deduplicate
-  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  const summed = new Map<number, number>();
-  for (const r of readings) {
-    const key = r.timestamp.getTime();
-    summed.set(key, (summed.get(key) ?? 0) + r.value);
-  }
-
-  const normalized: GasReading[] = Array.from(summed.entries())
-    .sort((a, b) => a[0] - b[0])
-    .map(([ms, v]) => ({ timestamp: new Date(ms), value: v }));
+  const normalized = sumGasByTimestamp(readings);
 
   if (skipped > 0) {
     warnings.push(`Skipped ${skipped} row(s) that didn't look like gas interval readings.`);
   }
 
   // Detect interval size
-  if (normalized.length >= 3) {
-    const diffs: number[] = [];
-    for (let i = 1; i < Math.min(normalized.length, 500); i++) {
-      diffs.push(normalized[i].timestamp.getTime() - normalized[i - 1].timestamp.getTime());
-    }
-    diffs.sort((a, b) => a - b);
-    const median = diffs[Math.floor(diffs.length / 2)];
-    const hours = Math.round(median / (60 * 60 * 1000));
-    if (hours !== 1 && hours !== 24) {
-      warnings.push(`Detected ~${hours} hour intervals (expected 1 or 24). Data may be aggregated differently.`);
-    }
-  }
+  const intervalWarning = detectGasIntervalWarning(normalized);
+  if (intervalWarning) warnings.push(intervalWarning);
 
-  return { readings: normalized, warnings };
+  return { readings: normalized, warnings, format: 'pge-gas-csv', sourceUnit: 'therm' };
 };
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTierLimits, splitAcrossTiers } from './rateTiers';
+
+describe('splitAcrossTiers', () => {
+  const limits = resolveTierLimits([
+    { name: 'Tier 1', threshold: 100 },
+    { name: 'Tier 2', threshold: 400 },
+    { name: 'Tier 3' }
+  ], 300);
+
+  it('resolves percent-of-baseline thresholds to kWh', () => {
+    expect(limits).toEqual([300, 1200, Infinity]);
+  });
+
+  it('splits an interval that crosses a tier boundary', () => {
+    expect(splitAcrossTiers(limits, 298, 5)).toEqual([{ tier: 0, kwh: 2 }, { tier: 1, kwh: 3 }]);
+  });
+
+  it('splits an interval that crosses two boundaries', () => {
+    expect(splitAcrossTiers([10, 20, Infinity], 8, 15)).toEqual([{ tier: 0, kwh: 2 }, { tier: 1, kwh: 10 }, { tier: 2, kwh: 3 }]);
+  });
+
+  it('credits exports at the tier usage has reached', () => {
+    expect(splitAcrossTiers(limits, 301, -4)).toEqual([{ tier: 1, kwh: -4 }]);
+  });
+});
@@ -0,0 +1,54 @@
+import { RateTier, Tariff, TariffPeriod } from '../types';
+import { getSeasonalRate } from './seasons';
+
+// Tier schedules for tiered tariffs. Usage accumulates over the billing period; each tier covers
+// usage up to its threshold, given as a percent of the period's baseline allowance or in kWh.
+// Periods without a schedule keep the classic two tiers: baseline, then tier2Multiplier × base.
+
+export const DEFAULT_TIER2_MULTIPLIER = 1.24;
+
+export const getTierSchedule = (tariff: Tariff, period: TariffPeriod): RateTier[] =>
+  period.tiers?.length
+    ? period.tiers
+    : [
+        { name: 'Tier 1', threshold: 100 },
+        { name: 'Tier 2', multiplier: tariff.tier2Multiplier ?? DEFAULT_TIER2_MULTIPLIER }
+      ];
+
+// Upper bound of each tier in kWh for a period with the given baseline allowance. Bounds never
+// decrease, so a misordered schedule can't make usage fall back into a lower tier.
+export const resolveTierLimits = (tiers: RateTier[], baselineKwh: number): number[] => {
+  let floor = 0;
+  return tiers.map((tier, i) => {
+    if (tier.threshold == null || i === tiers.length - 1) return Infinity;
+    const limit = tier.thresholdUnit === 'kwh' ? tier.threshold : baselineKwh * tier.threshold / 100;
+    floor = Math.max(floor, limit);
+    return floor;
+  });
+};
+
+export const getTierRate = (tier: RateTier, period: TariffPeriod, season: string): number =>
+  tier.rate != null
+    ? getSeasonalRate({ rate: tier.rate, summerRate: tier.summerRate, seasonRates: tier.seasonRates }, season)
+    : getSeasonalRate(period, season) * (tier.multiplier ?? 1);
+
+// Split `kwh` consumed after `usedKwh` so far this period across the tiers it falls in. Exports
+// (negative kWh) are credited at the tier the period's usage has reached.
+export const splitAcrossTiers = (limits: number[], usedKwh: number, kwh: number): { tier: number; kwh: number }[] => {
+  let tier = limits.findIndex(limit => usedKwh < limit);
+  if (tier < 0) tier = limits.length - 1;
+  if (kwh <= 0) return [{ tier, kwh }];
+
+  const parts: { tier: number; kwh: number }[] = [];
+  let remaining = kwh;
+  let used = usedKwh;
+  while (remaining > 0) {
+    const room = limits[tier] - used;
+    const take = tier === limits.length - 1 ? remaining : Math.min(remaining, room);
+    if (take > 0) parts.push({ tier, kwh: take });
+    remaining -= take;
+    used += take;
+    tier++;
+  }
+  return parts;
+};
@@ -0,0 +1,40 @@
+import { EnergyReading } from '../types';
+
+// Import/export channel helpers. `value` stays the net kWh (import − export) that net-metered
+// billing uses; readings from net-only files carry no channels, so import/export derive from the
+// sign of the net value.
+
+export const getImportKwh = (r: EnergyReading): number => r.importKwh ?? Math.max(0, r.value);
+
+export const getExportKwh = (r: EnergyReading): number => r.exportKwh ?? Math.max(0, -r.value);
+
+export const hasChannelData = (readings: EnergyReading[]): boolean =>
+  readings.some(r => r.importKwh != null || r.exportKwh != null);
+
+export const channelReading = (timestamp: Date, importKwh: number, exportKwh: number): EnergyReading => ({
+  timestamp,
+  value: importKwh - exportKwh,
+  importKwh,
+  exportKwh
+});
+
+// Add behind-the-meter load to an interval. The load soaks up that interval's export first
+// (solar that would have gone to the grid), and only the remainder is imported.
+export const addLoadToReading = (r: EnergyReading, kwh: number): EnergyReading => {
+  if (r.importKwh == null && r.exportKwh == null) return { ...r, value: r.value + kwh };
+  const exported = getExportKwh(r);
+  const absorbed = Math.min(exported, kwh);
+  const importKwh = getImportKwh(r) + (kwh - absorbed);
+  const exportKwh = exported - absorbed;
+  return { ...r, value: importKwh - exportKwh, importKwh, exportKwh };
+};
+
+// Add `r` into an accumulator reading (chart aggregation, duplicate timestamps). Channels are
+// kept whenever either side has them.
+export const accumulateReading = (into: EnergyReading, r: EnergyReading): void => {
+  if (into.importKwh != null || into.exportKwh != null || r.importKwh != null || r.exportKwh != null) {
+    into.importKwh = getImportKwh(into) + getImportKwh(r);
+    into.exportKwh = getExportKwh(into) + getExportKwh(r);
+  }
+  into.value += r.value;
+};
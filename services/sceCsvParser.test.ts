@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { detectIntervalCsvFormat } from './intervalCsvParser';
+import { parseSceIntervalCsv } from './sceCsvParser';
+
+const csv = [
+  'Energy Usage Information',
+  '"For location: 123 MAIN ST"',
+  '',
+  '"Energy consumption time period","Usage(Real energy in kilowatt-hours)","Reading quality"',
+  '"2025-01-06 00:00:00 to 2025-01-06 01:00:00","1.200",""',
+  '"2025-01-06 01:00:00 to 2025-01-06 02:00:00","0.800",""',
+  '"2025-01-06 02:00:00 to 2025-01-06 03:00:00","n/a",""',
+  '"2025-01-06 03:00:00 to 2025-01-06 04:00:00","0.500",""',
+  '',
+  '"Energy Received time period","Usage(Real energy in kilowatt-hours)","Reading quality"',
+  '"2025-01-06 01:00:00 to 2025-01-06 02:00:00","0.300",""'
+].join('\n');
+
+describe('parseSceIntervalCsv', () => {
+  it('is detected as an SCE export', () => {
+    expect(detectIntervalCsvFormat(csv)).toBe('sce-csv');
+  });
+
+  it('nets the Energy Received section against delivered kWh', () => {
+    const result = parseSceIntervalCsv(csv);
+
+    expect(result.flowDirections).toEqual(['forward', 'reverse']);
+    expect(result.readings.map(r => r.timestamp.toISOString())).toEqual([
+      '2025-01-06T08:00:00.000Z', '2025-01-06T09:00:00.000Z', '2025-01-06T11:00:00.000Z'
+    ]);
+    expect(result.readings[1]).toMatchObject({ importKwh: 0.8, exportKwh: 0.3 });
+    expect(result.readings[1].value).toBeCloseTo(0.5);
+  });
+
+  it('warns about rows without a reading', () => {
+    const { warnings } = parseSceIntervalCsv(csv);
+    expect(warnings).toContain('Skipped 1 row(s) that didn’t look like interval readings.');
+  });
+});
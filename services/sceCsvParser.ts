@@ -0,0 +1,124 @@
+import { EnergyReading } from '../types';
+import { PgeCsvParseResult } from './pgeCsvParser';
+import {
+  normalizeHeader,
+  parseCsvRows,
+  parseNumber,
+  parseSingleDateTimeField,
+  sumByTimestamp,
+  detectIntervalWarning,
+  WallTimeResolver
+} from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE, createWallTimeResolver } from './timeZone';
+import { channelReading } from './readingChannels';
+
+// SCE "Green Button Download" CSV:
+//   Energy Usage Information
+//   "For location: 123 MAIN ST ..."
+//   ... (multi-line preamble: account, meter, reading type)
+//   "Energy consumption time period","Usage(Real energy in kilowatt-hours)","Reading quality"
+//   "2025-01-01 00:00:00 to 2025-01-01 00:15:00","0.120",""
+// Solar customers get a second section headed "Energy Received time period" for exported kWh.
+
+const isSectionHeader = (row: string[]): boolean =>
+  row.some(c => /time period/.test(normalizeHeader(c)));
+
+// "2025-01-01 00:00:00 to 2025-01-01 00:15:00" → start and end Dates
+const parseTimePeriodRange = (
+  raw: string,
+  resolveStart: WallTimeResolver,
+  resolveEnd: WallTimeResolver
+): { start: Date; end: Date | null } | null => {
+  const parts = raw.replace(/\u00a0/g, ' ').split(/\s+to\s+/i);
+  const start = parseSingleDateTimeField(parts[0] ?? '', resolveStart);
+  if (!start) return null;
+  const end = parts[1] ? parseSingleDateTimeField(parts[1], resolveEnd) : null;
+  return { start, end };
+};
+
+export const looksLikeSceCsv = (rows: string[][]): boolean => {
+  const scan = rows.slice(0, 40);
+  if (scan.some(isSectionHeader) && scan.some(r => r.some(c => /kilowatt-hours/i.test(c)))) return true;
+  return scan.some(r => r.some(c => /southern california edison|energy usage information/i.test(c)));
+};
+
+export const parseSceIntervalCsv = (csvText: string, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): PgeCsvParseResult => {
+  const warnings: string[] = [];
+
+  const rows = parseCsvRows(csvText)
+    .map(r => r.map(v => String(v ?? '')))
+    .filter(r => r.some(cell => String(cell ?? '').trim() !== ''));
+
+  if (rows.length < 2) {
+    throw new Error('CSV appears empty or unreadable.');
+  }
+
+  const imported: EnergyReading[] = [];
+  const exported: EnergyReading[] = [];
+  let skipped = 0;
+  let sectionCount = 0;
+
+  let target: EnergyReading[] | null = null;
+  let periodIdx = -1;
+  let usageIdx = -1;
+  // Each section restarts the clock, so the fall-back hour is tracked per section
+  let resolveStart = createWallTimeResolver(timeZone);
+  let resolveEnd = createWallTimeResolver(timeZone);
+
+  for (const row of rows) {
+    if (isSectionHeader(row)) {
+      const headers = row.map(normalizeHeader);
+      periodIdx = headers.findIndex(h => /time period/.test(h));
+      usageIdx = headers.findIndex(h => /usage|kilowatt|kwh/.test(h));
+      target = /received/.test(headers[periodIdx]) ? exported : imported;
+      sectionCount++;
+      resolveStart = createWallTimeResolver(timeZone);
+      resolveEnd = createWallTimeResolver(timeZone);
+      if (usageIdx === -1) target = null;
+      continue;
+    }
+
+    // Preamble and between-section text
+    if (!target) continue;
+
+    const range = parseTimePeriodRange(String(row[periodIdx] ?? ''), resolveStart, resolveEnd);
+    const kwh = parseNumber(row[usageIdx]);
+    if (!range || kwh == null) {
+      skipped++;
+      continue;
+    }
+
+    target.push({ timestamp: range.start, value: kwh });
+  }
+
+  if (sectionCount === 0) {
+    throw new Error('Could not find an SCE "time period" usage section in this CSV.');
+  }
+  if (imported.length === 0 && exported.length === 0) {
+    throw new Error('No interval readings were parsed from this SCE CSV.');
+  }
+
+  const flowDirections: Array<'forward' | 'reverse'> = [];
+  if (imported.length > 0) flowDirections.push('forward');
+  if (exported.length > 0) {
+    flowDirections.push('reverse');
+    warnings.push('Detected SCE "Energy Received" section. Calculating NET usage (Delivered − Received) to match SCE billing.');
+  }
+
+  // Delivered and Received sections become the import/export channels of each interval
+  const normalized = exported.length > 0
+    ? sumByTimestamp([
+      ...imported.map(r => channelReading(r.timestamp, r.value, 0)),
+      ...exported.map(r => channelReading(r.timestamp, 0, r.value))
+    ])
+    : sumByTimestamp(imported);
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} row(s) that didn’t look like interval readings.`);
+  }
+
+  const intervalWarning = detectIntervalWarning(normalized);
+  if (intervalWarning) warnings.push(intervalWarning);
+
+  return { readings: normalized, warnings, flowDirections, format: 'sce-csv', timeZone };
+};
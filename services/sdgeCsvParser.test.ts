@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectIntervalCsvFormat } from './intervalCsvParser';
+import { parseSdgeIntervalCsv } from './sdgeCsvParser';
+
+const csv = [
+  'Name,JANE DOE',
+  'Account Number,1234567890',
+  '',
+  'Meter Number,Date,Start Time,Duration,Consumption,Generation,Net',
+  '01234567,1/6/2025,12:00 AM,15,0.400,0.000,0.400',
+  '01234567,1/6/2025,12:15 AM,15,0.300,0.100,0.200',
+  '01234567,1/6/2025,12:30 AM,15,,,',
+  '01234567,1/6/2025,12:45 AM,15,0.200,0.000,0.200'
+].join('\n');
+
+describe('parseSdgeIntervalCsv', () => {
+  it('is detected as an SDG&E export', () => {
+    expect(detectIntervalCsvFormat(csv)).toBe('sdge-csv');
+  });
+
+  it('splits Consumption and Generation into import and export channels', () => {
+    const result = parseSdgeIntervalCsv(csv);
+
+    expect(result.flowDirections).toEqual(['forward', 'reverse']);
+    expect(result.readings).toHaveLength(3);
+    expect(result.readings[0].timestamp.toISOString()).toBe('2025-01-06T08:00:00.000Z');
+    expect(result.readings[1]).toMatchObject({ importKwh: 0.3, exportKwh: 0.1 });
+    expect(result.readings[1].value).toBeCloseTo(0.2);
+  });
+
+  it('warns about rows without a reading', () => {
+    const { warnings } = parseSdgeIntervalCsv(csv);
+    expect(warnings).toContain('Skipped 1 row(s) that didn’t look like interval readings.');
+  });
+});
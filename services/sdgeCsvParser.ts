@@ -0,0 +1,123 @@
+import { EnergyReading } from '../types';
+import { PgeCsvParseResult } from './pgeCsvParser';
+import { normalizeHeader, parseCsvRows, parseNumber, parseDateTime, sumByTimestamp, detectIntervalWarning } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE, createWallTimeResolver } from './timeZone';
+import { channelReading } from './readingChannels';
+
+// SDG&E "Green Button Download My Data" 15-minute CSV:
+//   Name,JANE DOE
+//   Address,...
+//   Account Number,...
+//   ... (preamble)
+//   Meter Number,Date,Start Time,Duration,Consumption,Generation,Net
+//   01234567,1/1/2025,12:00 AM,15,0.123,0.000,0.123
+// Consumption and Generation are both positive kWh; Net = Consumption − Generation.
+
+const isSdgeHeaderRow = (row: string[]): boolean => {
+  const headers = row.map(normalizeHeader);
+  return headers.some(h => h === 'date')
+    && headers.some(h => /^start time/.test(h))
+    && headers.some(h => /^consumption|^net/.test(h));
+};
+
+export const looksLikeSdgeCsv = (rows: string[][]): boolean => {
+  const scan = rows.slice(0, 40);
+  if (scan.some(isSdgeHeaderRow) && scan.some(r => r.map(normalizeHeader).some(h => h === 'duration'))) return true;
+  return scan.some(r => r.some(c => /sdg&e|san diego gas/i.test(c)));
+};
+
+export const parseSdgeIntervalCsv = (csvText: string, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): PgeCsvParseResult => {
+  const warnings: string[] = [];
+  const resolveStart = createWallTimeResolver(timeZone);
+
+  const rows = parseCsvRows(csvText)
+    .map(r => r.map(v => String(v ?? '')))
+    .filter(r => r.some(cell => String(cell ?? '').trim() !== ''));
+
+  if (rows.length < 2) {
+    throw new Error('CSV appears empty or unreadable.');
+  }
+
+  const headerIdx = rows.findIndex(isSdgeHeaderRow);
+  if (headerIdx === -1) {
+    throw new Error('Could not find the SDG&E "Date, Start Time, Consumption" header row in this CSV.');
+  }
+
+  const headers = rows[headerIdx].map(normalizeHeader);
+  const findHeader = (predicate: (h: string) => boolean): number => headers.findIndex(predicate);
+
+  const dateIdx = findHeader(h => h === 'date');
+  const startTimeIdx = findHeader(h => /^start time/.test(h));
+  const durationIdx = findHeader(h => h === 'duration');
+  const consumptionIdx = findHeader(h => /^consumption/.test(h));
+  const generationIdx = findHeader(h => /^generation/.test(h));
+  const netIdx = findHeader(h => /^net/.test(h));
+  const hasSolarColumns = consumptionIdx !== -1 && generationIdx !== -1;
+
+  if (consumptionIdx === -1 && netIdx === -1) {
+    throw new Error('Could not find a Consumption or Net kWh column in this SDG&E CSV.');
+  }
+
+  if (hasSolarColumns) {
+    warnings.push('Detected SDG&E Consumption/Generation columns. Calculating NET usage (Consumption − Generation) to match SDG&E billing.');
+  }
+
+  const readings: EnergyReading[] = [];
+  let skipped = 0;
+  const durations = new Set<number>();
+
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const row = rows[i];
+
+    let kwh: number | null;
+    let consumption: number | null = null;
+    let generation = 0;
+    if (hasSolarColumns) {
+      consumption = parseNumber(row[consumptionIdx]);
+      generation = parseNumber(row[generationIdx]) ?? 0;
+      kwh = consumption == null ? null : consumption - generation;
+    } else {
+      kwh = parseNumber(row[consumptionIdx !== -1 ? consumptionIdx : netIdx]);
+    }
+
+    const ts = parseDateTime(String(row[dateIdx] ?? ''), String(row[startTimeIdx] ?? ''), resolveStart);
+    if (kwh == null || !ts) {
+      skipped++;
+      continue;
+    }
+
+    if (durationIdx !== -1) {
+      const duration = parseNumber(row[durationIdx]);
+      if (duration != null) durations.add(duration);
+    }
+
+    readings.push(hasSolarColumns && consumption != null
+      ? channelReading(ts, consumption, generation)
+      : { timestamp: ts, value: kwh });
+  }
+
+  if (readings.length === 0) {
+    throw new Error('No interval readings were parsed from this SDG&E CSV.');
+  }
+
+  const normalized = sumByTimestamp(readings);
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} row(s) that didn’t look like interval readings.`);
+  }
+
+  if (durations.size > 1) {
+    warnings.push(`Found mixed interval durations (${Array.from(durations).sort((a, b) => a - b).join(', ')} min).`);
+  }
+
+  const intervalWarning = detectIntervalWarning(normalized);
+  if (intervalWarning) warnings.push(intervalWarning);
+
+  return {
+    readings: normalized,
+    warnings,
+    flowDirections: hasSolarColumns ? ['forward', 'reverse'] : ['forward'],
+    format: 'sdge-csv',
+    timeZone
+  };
+};
@@ -0,0 +1,51 @@
+import { Tariff, TariffPeriod, TariffSeason } from '../types';
+
+// Tariff seasons. Each tariff declares its seasons by start date (PG&E and SCE summer is
+// Jun–Sep, SDG&E's is Jun–Oct, and CCA generation rates can differ again); every seasonal rate
+// and baseline lookup goes through getSeason.
+
+export const DEFAULT_SEASONS: TariffSeason[] = [
+  { name: 'summer', start: '06-01' },
+  { name: 'winter', start: '10-01' }
+];
+
+export const SUMMER_SEASON = 'summer';
+
+// Seasons sorted by start, with starts as MMDD numbers for comparison
+const scheduleCache = new WeakMap<TariffSeason[], { name: string; start: number }[]>();
+const getSchedule = (seasons: TariffSeason[]) => {
+  let schedule = scheduleCache.get(seasons);
+  if (!schedule) {
+    schedule = seasons
+      .map(s => {
+        const [mm, dd] = s.start.split('-').map(Number);
+        return { name: s.name, start: mm * 100 + dd };
+      })
+      .sort((a, b) => a.start - b.start);
+    scheduleCache.set(seasons, schedule);
+  }
+  return schedule;
+};
+
+// Season name for a utility-local calendar day (month 0-11)
+export const getSeason = (tariff: Pick<Tariff, 'seasons'>, month: number, day: number): string => {
+  const schedule = getSchedule(tariff.seasons?.length ? tariff.seasons : DEFAULT_SEASONS);
+  const md = (month + 1) * 100 + day;
+  // Before the first start of the year we're still in the last season of the previous year
+  let season = schedule[schedule.length - 1].name;
+  for (const s of schedule) {
+    if (s.start <= md) season = s.name;
+  }
+  return season;
+};
+
+export const getSeasonalRate = (period: Pick<TariffPeriod, 'rate' | 'summerRate' | 'seasonRates'>, season: string): number =>
+  period.seasonRates?.[season]
+    ?? (season === SUMMER_SEASON ? period.summerRate : undefined)
+    ?? period.rate;
+
+export const getSeasonalDeliveryRate = (period: TariffPeriod, season: string): number =>
+  period.seasonDeliveryRates?.[season]
+    ?? (season === SUMMER_SEASON ? period.deliverySummerRate : undefined)
+    ?? period.deliveryRate
+    ?? 0;
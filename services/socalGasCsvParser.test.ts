@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { detectGasCsvFormat } from './gasCsvParser';
+import { DEFAULT_THERM_FACTOR } from './gasUnits';
+import { parseSoCalGasCsv } from './socalGasCsvParser';
+
+const preamble = ['Name,JANE DOE', 'Service,Natural Gas', ''];
+
+const csv = [
+  ...preamble,
+  'TYPE,DATE,START TIME,END TIME,USAGE,UNITS,NOTES',
+  'Natural gas usage,2025-01-06,00:00,23:59,2.00,CCF,',
+  'Natural gas usage,2025-01-07,00:00,23:59,1.00,CCF,',
+  'Natural gas usage,2025-01-08,00:00,23:59,,CCF,',
+  'Natural gas usage,2025-01-09,00:00,23:59,3.00,CCF,',
+  'Billing summary,2025-01-31,,,45.00,USD,'
+].join('\n');
+
+const csvWithFactor = [
+  ...preamble,
+  'TYPE,DATE,START TIME,END TIME,USAGE,UNITS,BILLING FACTOR',
+  'Natural gas usage,2025-01-06,00:00,23:59,2.00,CCF,1.050',
+  'Natural gas usage,2025-01-07,00:00,23:59,1.00,CCF,1.050'
+].join('\n');
+
+describe('parseSoCalGasCsv', () => {
+  it('is detected as a SoCalGas export', () => {
+    expect(detectGasCsvFormat(csv)).toBe('socalgas-csv');
+    expect(detectGasCsvFormat('Start Date,Usage (Therms)\n2025-01-06,1.2')).toBe('pge-gas-csv');
+  });
+
+  it('converts CCF to therms at the default therm factor', () => {
+    const result = parseSoCalGasCsv(csv);
+
+    expect(result.sourceUnit).toBe('ccf');
+    expect(result.readings.map(r => r.value)).toEqual([2, 1, 3].map(ccf => ccf * DEFAULT_THERM_FACTOR));
+    expect(result.warnings).toContain(`Converted CCF to therms at a typical billing therm factor of ${DEFAULT_THERM_FACTOR} — your bill shows the exact factor.`);
+  });
+
+  it('converts CCF at the billing factor column when the file has one', () => {
+    const result = parseSoCalGasCsv(csvWithFactor);
+
+    expect(result.readings.map(r => r.value)).toEqual([2 * 1.05, 1 * 1.05]);
+    expect(result.warnings).toContain("Converted CCF to therms using the file's billing therm factor (1.050).");
+  });
+
+  it('skips summary rows and rows without usage', () => {
+    const { warnings } = parseSoCalGasCsv(csv);
+    expect(warnings).toContain("Skipped 2 row(s) that didn't look like gas usage readings.");
+  });
+});
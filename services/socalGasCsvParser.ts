@@ -0,0 +1,126 @@
+import { GasReading } from '../types';
+import { PgeGasCsvParseResult, detectGasIntervalWarning, sumGasByTimestamp } from './pgeGasCsvParser';
+import { normalizeHeader, parseCsvRows, parseDateTime, parseNumber, parseSingleDateTimeField } from './csvUtils';
+import { DEFAULT_UTILITY_TIME_ZONE, createWallTimeResolver } from './timeZone';
+import { DEFAULT_THERM_FACTOR, GasUnit, detectGasUnit, thermConversionWarning, toTherms } from './gasUnits';
+
+// SoCalGas "Download My Data" CSV:
+//   Name,JANE DOE
+//   Address,"123 MAIN ST, LOS ANGELES CA"
+//   Account Number,1234567890
+//   Service,Natural Gas
+//
+//   TYPE,DATE,START TIME,END TIME,USAGE,UNITS,NOTES
+//   Natural gas usage,2025-01-01,00:00,23:59,1.82,CCF,
+// Daily rows for most meters; Advanced Meter accounts can export hourly rows (START/END one hour
+// apart). Usage is in therms or CCF — CCF converts at the billing therm factor, taken from a
+// "billing factor" column when the file has one.
+
+const HEADER_SCAN_ROWS = 40;
+
+const isUnitsHeader = (h: string): boolean => h === 'units' || h === 'unit' || h === 'uom';
+
+// Recognized by the usage table itself — TYPE, DATE and USAGE columns plus a UNITS column holding
+// CCF or therms — since the preamble doesn't name the utility
+export const looksLikeSoCalGasCsv = (rows: string[][]): boolean => {
+  const headerIdx = rows.slice(0, HEADER_SCAN_ROWS).findIndex(r => {
+    const headers = r.map(normalizeHeader);
+    return headers.includes('type') && headers.includes('date') && headers.some(h => /usage/.test(h)) && headers.some(isUnitsHeader);
+  });
+  if (headerIdx === -1) return false;
+  const unitsIdx = rows[headerIdx].map(normalizeHeader).findIndex(isUnitsHeader);
+  return rows.slice(headerIdx + 1, headerIdx + 1 + HEADER_SCAN_ROWS).some(r => {
+    const unit = detectGasUnit(r[unitsIdx] ?? '');
+    return unit === 'ccf' || unit === 'therm';
+  });
+};
+
+const isHeaderRow = (headers: string[]): boolean =>
+  headers.some(h => /date/.test(h)) && headers.some(h => /usage|consumption|therm|ccf|hcf/.test(h));
+
+export const parseSoCalGasCsv = (
+  csvText: string,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  thermFactor: number = DEFAULT_THERM_FACTOR
+): PgeGasCsvParseResult => {
+  const warnings: string[] = [];
+  const resolve = createWallTimeResolver(timeZone);
+
+  const rows = parseCsvRows(csvText)
+    .map(r => r.map(v => String(v ?? '')))
+    .filter(r => r.some(cell => cell.trim() !== ''));
+  if (rows.length < 2) {
+    throw new Error('CSV appears empty or unreadable.');
+  }
+
+  const headerIdx = rows.slice(0, HEADER_SCAN_ROWS).findIndex(r => isHeaderRow(r.map(normalizeHeader)));
+  if (headerIdx === -1) {
+    throw new Error('Could not find a date and usage header row. Make sure this is a SoCalGas usage export.');
+  }
+  const headersRaw = rows[headerIdx];
+  const headers = headersRaw.map(normalizeHeader);
+  const findHeader = (predicate: (h: string) => boolean): number => headers.findIndex(predicate);
+
+  const usageIdx = findHeader(h => /usage|consumption|quantity/.test(h) && !/cost|charge/.test(h)) !== -1
+    ? findHeader(h => /usage|consumption|quantity/.test(h) && !/cost|charge/.test(h))
+    : findHeader(h => /therm|ccf|hcf/.test(h) && !/cost|charge|factor/.test(h));
+  const unitsIdx = findHeader(isUnitsHeader);
+  const factorIdx = findHeader(h => /factor/.test(h));
+  const dateIdx = findHeader(h => h === 'date' || /read date|usage date|start date/.test(h));
+  const startTimeIdx = findHeader(h => /start time/.test(h));
+  const typeIdx = findHeader(h => h === 'type');
+  if (usageIdx === -1 || dateIdx === -1) {
+    throw new Error('Could not find usage and date columns in this CSV.');
+  }
+
+  // Unit from the usage header ("Usage (CCF)") unless rows carry their own
+  const headerUnit = detectGasUnit(headersRaw[usageIdx]);
+  let assumedUnit = false;
+
+  const readings: GasReading[] = [];
+  const unitsSeen = new Set<GasUnit>();
+  const factorsUsed: number[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(headerIdx + 1)) {
+    // Solar/billing summary sections in the same file aren't gas usage
+    if (typeIdx !== -1 && row[typeIdx]?.trim() && !/gas|usage/i.test(row[typeIdx])) {
+      skipped++;
+      continue;
+    }
+    const value = parseNumber(row[usageIdx]);
+    const dateRaw = (row[dateIdx] ?? '').trim();
+    const ts = startTimeIdx !== -1 && row[startTimeIdx]?.trim()
+      ? parseDateTime(dateRaw, row[startTimeIdx], resolve)
+      : parseSingleDateTimeField(dateRaw, resolve);
+    if (value == null || !ts) {
+      skipped++;
+      continue;
+    }
+
+    let unit = (unitsIdx !== -1 ? detectGasUnit(row[unitsIdx] ?? '') : null) ?? headerUnit;
+    if (!unit) {
+      unit = 'therm';
+      assumedUnit = true;
+    }
+    unitsSeen.add(unit);
+    const factor = factorIdx !== -1 ? parseNumber(row[factorIdx]) ?? thermFactor : thermFactor;
+    if (unit !== 'therm') factorsUsed.push(factor);
+    readings.push({ timestamp: ts, value: toTherms(value, unit, factor) });
+  }
+
+  if (readings.length === 0) {
+    throw new Error('No gas readings were parsed from this CSV.');
+  }
+  const normalized = sumGasByTimestamp(readings);
+
+  if (skipped > 0) warnings.push(`Skipped ${skipped} row(s) that didn't look like gas usage readings.`);
+  if (assumedUnit) warnings.push('No usage unit found in the file; assuming therms.');
+  const sourceUnit = Array.from(unitsSeen).find(u => u !== 'therm') ?? 'therm';
+  const conversion = thermConversionWarning(sourceUnit, factorsUsed);
+  if (conversion) warnings.push(conversion);
+  const intervalWarning = detectGasIntervalWarning(normalized);
+  if (intervalWarning) warnings.push(intervalWarning);
+
+  return { readings: normalized, warnings, format: 'socalgas-csv', sourceUnit };
+};
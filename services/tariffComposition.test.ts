@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CcaProgram, Tariff } from '../types';
+import { composeCcaTariff, getPciaRate } from './tariffComposition';
+
+const utility: Tariff = {
+  id: 'test-utility-tou',
+  name: 'Test Utility TOU',
+  description: '',
+  type: 'tou',
+  periods: [
+    { name: 'Peak', startHour: 16, endHour: 20, rate: 0.45, deliveryRate: 0.25 },
+    { name: 'Off-Peak', startHour: 21, endHour: 15, rate: 0.35, deliveryRate: 0.20 }
+  ],
+  fixedMonthlyCharge: 24
+};
+
+const program: CcaProgram = {
+  name: 'Test CCA',
+  provider: 'mce-pge',
+  premium: 0.01,
+  generationAdjustments: { Peak: -0.02 },
+  pciaByVintage: { '2009': 0.02, '2016': 0.03 },
+  defaultVintage: '2009',
+  plans: [{
+    id: 'test-cca-tou',
+    name: 'Test CCA TOU',
+    description: '',
+    deliveryTariffId: 'test-utility-tou',
+    generation: { Peak: { rate: 0.15 }, 'Off-Peak': { rate: 0.10 } }
+  }]
+};
+
+describe('composeCcaTariff', () => {
+  const tariff = composeCcaTariff([utility], program, program.plans[0]);
+
+  it('adds the premium and per-period generation credit adjustments to generation', () => {
+    const [peak, offPeak] = tariff.periods;
+    expect(peak.rate).toBeCloseTo(0.25 + 0.15 + 0.01 - 0.02);
+    expect(offPeak.rate).toBeCloseTo(0.20 + 0.10 + 0.01);
+    // Delivery is the utility's, untouched
+    expect(peak.deliveryRate).toBe(0.25);
+  });
+
+  it('uses the PCIA of the customer vintage, else the default vintage', () => {
+    expect(getPciaRate(tariff)).toBe(0.02);
+    expect(getPciaRate(tariff, { pciaVintage: '2019' })).toBe(0.03);
+  });
+});
@@ -0,0 +1,109 @@
+import { CcaPlan, CcaProgram, CustomerProfile, GenerationRate, RateVersion, Tariff, TariffPeriod } from '../types';
+import { SUMMER_SEASON, getSeasonalDeliveryRate, getSeasonalRate } from './seasons';
+
+// Unbundled CCA tariffs. A CCA customer pays the utility for delivery (and PCIA) and the CCA for
+// generation, on the same TOU periods. A composed tariff takes the utility plan's periods, fixed
+// charges and delivery rates, and adds the CCA's generation rate for each period — so a new CCA is
+// a generation schedule, not a copy of every utility schedule. A program's premium and generation
+// credit adjustments shift its generation rates; PCIA is billed on top, by vintage.
+
+// CCA (unbundled) tariffs, as opposed to bundled utility plans that also list delivery rates
+export const isCcaTariff = (tariff: Tariff): boolean =>
+  tariff.pciaByVintage != null || tariff.provider === 'mce-pge';
+
+// PCIA for the customer's vintage: the latest listed vintage at or before it, else the default.
+// Takes a tariff or one of its rate versions.
+export const getPciaRate = (tariff: Pick<Tariff, 'pciaRate' | 'pciaByVintage'>, customer: CustomerProfile = {}): number => {
+  const vintages = tariff.pciaByVintage;
+  if (!vintages || !customer.pciaVintage) return tariff.pciaRate ?? 0;
+  const year = customer.pciaVintage;
+  const match = Object.keys(vintages).filter(v => v <= year).sort().pop() ?? Object.keys(vintages).sort()[0];
+  return match != null ? vintages[match] : tariff.pciaRate ?? 0;
+};
+
+// Named seasons besides summer that the delivery or generation schedule prices separately
+const seasonNames = (period: TariffPeriod, generation: GenerationRate): string[] =>
+  Array.from(new Set([
+    ...Object.keys(period.seasonDeliveryRates ?? {}),
+    ...Object.keys(generation.seasonRates ?? {})
+  ])).filter(name => name !== SUMMER_SEASON);
+
+// Not a season name, so seasonal lookups fall through to the base `rate`
+const BASE_RATE = '';
+
+const composePeriod = (
+  period: TariffPeriod,
+  generation: Record<string, GenerationRate>,
+  program: CcaProgram,
+  plan: CcaPlan
+): TariffPeriod => {
+  if (period.deliveryRate == null) {
+    throw new Error(`Cannot compose ${plan.id}: "${period.name}" on ${plan.deliveryTariffId} has no delivery rate.`);
+  }
+  const rates = generation[period.name];
+  if (!rates) {
+    throw new Error(`Cannot compose ${plan.id}: no generation rate for "${period.name}".`);
+  }
+  // The program's premium and any generation credit adjustment for this period apply in every season
+  const adjustment = (program.premium ?? 0) + (program.generationAdjustments?.[period.name] ?? 0);
+  const totalFor = (season: string): number =>
+    getSeasonalDeliveryRate(period, season) + getSeasonalRate(rates, season) + adjustment;
+
+  // Seasons without their own rates (winter, by default) price at the period's base rate
+  const names = seasonNames(period, rates);
+  return {
+    ...period,
+    rate: totalFor(BASE_RATE),
+    summerRate: totalFor(SUMMER_SEASON),
+    seasonRates: names.length > 0 ? Object.fromEntries(names.map(name => [name, totalFor(name)])) : undefined
+  };
+};
+
+// The version in effect just before `cutoff`: the first one whose own cutoff is at or after it,
+// else the current rates
+const versionBefore = <T extends { effectiveBefore: string }>(history: T[] | undefined, cutoff: string): T | undefined =>
+  history?.find(v => cutoff <= v.effectiveBefore);
+
+// Utility delivery plus CCA generation for one plan. Delivery and generation change on their own
+// dates, so the composed history has a version at every cutoff of either, each pairing the
+// delivery and generation rates in effect for its dates.
+export const composeCcaTariff = (utilityTariffs: Tariff[], program: CcaProgram, plan: CcaPlan): Tariff => {
+  const utility = utilityTariffs.find(t => t.id === plan.deliveryTariffId);
+  if (!utility) throw new Error(`Cannot compose ${plan.id}: unknown delivery tariff ${plan.deliveryTariffId}.`);
+  const composePeriods = (periods: TariffPeriod[], generation: Record<string, GenerationRate>) =>
+    periods.map(p => composePeriod(p, generation, program, plan));
+
+  const cutoffs = Array.from(new Set([
+    ...(utility.rateHistory ?? []).map(v => v.effectiveBefore),
+    ...(plan.generationHistory ?? []).map(v => v.effectiveBefore)
+  ])).sort();
+  const rateHistory = cutoffs.map((effectiveBefore): RateVersion => {
+    const delivery = versionBefore(utility.rateHistory, effectiveBefore) ?? utility;
+    const generation = versionBefore(plan.generationHistory, effectiveBefore)?.generation ?? plan.generation;
+    return {
+      effectiveBefore,
+      periods: composePeriods(delivery.periods, generation),
+      fixedMonthlyCharge: delivery.fixedMonthlyCharge,
+      incomeTierCharges: delivery.incomeTierCharges
+    };
+  });
+
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    type: utility.type,
+    periods: composePeriods(utility.periods, plan.generation),
+    fixedMonthlyCharge: utility.fixedMonthlyCharge,
+    incomeTierCharges: utility.incomeTierCharges,
+    provider: program.provider,
+    tier2Multiplier: utility.tier2Multiplier,
+    pciaRate: program.pciaByVintage[program.defaultVintage] ?? 0,
+    pciaByVintage: program.pciaByVintage,
+    rateHistory: rateHistory.length > 0 ? rateHistory : undefined,
+    seasons: utility.seasons
+  };
+};
+
+export const composeCcaTariffs = (utilityTariffs: Tariff[], programs: CcaProgram[]): Tariff[] =>
+  programs.flatMap(program => program.plans.map(plan => composeCcaTariff(utilityTariffs, program, plan)));
@@ -0,0 +1,52 @@
+import { DailyTemperature, EnergyReading, GasReading, Tariff } from '../types';
+
+// Shared fixtures for the calculator tests
+
+// One TOU period all day: a single rate with no tiers, $0.10 of it delivery
+export const singleRateTariff: Tariff = {
+  id: 'test-tou',
+  name: 'Test Single Period',
+  description: '',
+  type: 'tou',
+  periods: [{ name: 'All Day', startHour: 0, endHour: 23, rate: 0.30, deliveryRate: 0.10 }],
+  fixedMonthlyCharge: 0
+};
+
+const daysIn = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// One net reading per day of a month (month is 0-based), at a UTC hour — 17:00 is mid-morning
+// Pacific time; negative values are net exports
+export const dailyReadings = (year: number, month: number, kwhPerDay: number, utcHour = 17): EnergyReading[] =>
+  Array.from({ length: daysIn(year, month) }, (_, i) => ({
+    timestamp: new Date(Date.UTC(year, month, i + 1, utcHour)),
+    value: kwhPerDay
+  }));
+
+// One reading per day, around noon Pacific time, with separate import and export channels
+export const dailyChannelReadings = (year: number, month: number, importKwh: number, exportKwh: number): EnergyReading[] =>
+  Array.from({ length: daysIn(year, month) }, (_, i) => ({
+    timestamp: new Date(Date.UTC(year, month, i + 1, 19)),
+    value: importKwh - exportKwh,
+    importKwh,
+    exportKwh
+  }));
+
+// A gas home in 2025 with a known weather response: 1 therm/day of baseload plus 0.2 therms per
+// heating degree day, at a constant daily mean of 40°F in January, 55°F in April and 70°F in July
+export const GAS_BASELOAD_THERMS = 1;
+export const GAS_THERMS_PER_HDD = 0.2;
+const MONTHLY_MEAN_F: Record<number, number> = { 0: 40, 3: 55, 6: 70 };
+
+const dayKey = (month: number, day: number) => `2025-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+export const dailyTemperatures: DailyTemperature[] = Object.entries(MONTHLY_MEAN_F).flatMap(([month, meanF]) =>
+  Array.from({ length: daysIn(2025, Number(month)) }, (_, i) => ({ date: dayKey(Number(month), i + 1), meanF })));
+
+// One gas reading per day, around noon Pacific time
+export const weatherDrivenGasReadings: GasReading[] = dailyTemperatures.map(t => {
+  const [year, month, day] = t.date.split('-').map(Number);
+  return {
+    timestamp: new Date(Date.UTC(year, month - 1, day, 19)),
+    value: GAS_BASELOAD_THERMS + GAS_THERMS_PER_HDD * Math.max(0, 65 - t.meanF)
+  };
+});
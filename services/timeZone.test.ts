@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createWallTimeResolver, zonedTimeToDate } from './timeZone';
+
+const wall = (day: number, hours: number, minutes = 0) => ({ year: 2025, monthIndex: 10, day, hours, minutes, seconds: 0 });
+
+describe('createWallTimeResolver', () => {
+  it('maps the repeated 1 AM hour in November to PDT, then PST', () => {
+    // 2025-11-02: clocks fall back from 2 AM PDT to 1 AM PST
+    const resolve = createWallTimeResolver('America/Los_Angeles');
+    const times = [wall(2, 0), wall(2, 1), wall(2, 1, 30), wall(2, 1), wall(2, 1, 30), wall(2, 2)].map(w => resolve(w).toISOString());
+
+    expect(times).toEqual([
+      '2025-11-02T07:00:00.000Z',
+      '2025-11-02T08:00:00.000Z', // 1 AM PDT
+      '2025-11-02T08:30:00.000Z',
+      '2025-11-02T09:00:00.000Z', // 1 AM PST
+      '2025-11-02T09:30:00.000Z',
+      '2025-11-02T10:00:00.000Z'
+    ]);
+  });
+
+  it('resolves an unrepeated 1 AM to the first occurrence', () => {
+    expect(createWallTimeResolver('America/Los_Angeles')(wall(2, 1)).toISOString()).toBe('2025-11-02T08:00:00.000Z');
+    expect(zonedTimeToDate(wall(2, 1), 'America/Los_Angeles', true).toISOString()).toBe('2025-11-02T09:00:00.000Z');
+  });
+});
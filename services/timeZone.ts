@@ -0,0 +1,146 @@
+// Utility wall-clock time helpers.
+// Readings are stored as true instants; TOU periods, billing months and seasons are defined in the
+// utility's local time, so every bucketing step reads wall-clock parts in the utility's zone instead
+// of the browser's (Date.getHours() would shift TOU periods for anyone outside Pacific time).
+
+// All current providers (PG&E, MCE, SCE, SDG&E) bill in Pacific time
+export const DEFAULT_UTILITY_TIME_ZONE = 'America/Los_Angeles';
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 0-11, like Date.getMonth()
+  day: number;     // 1-31
+  hour: number;    // 0-23
+  minute: number;
+  weekday: number; // 0 = Sunday, like Date.getDay()
+}
+
+export interface WallTime {
+  year: number;
+  monthIndex: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+};
+
+// Offset (ms) of the zone from UTC at an instant. Offsets only change on whole-hour boundaries for
+// the zones we serve, so results are cached per UTC hour — Intl is far too slow to call per reading.
+const offsetCache = new Map<string, Map<number, number>>();
+export const getTimeZoneOffsetMs = (ms: number, timeZone: string): number => {
+  let zoneCache = offsetCache.get(timeZone);
+  if (!zoneCache) {
+    zoneCache = new Map();
+    offsetCache.set(timeZone, zoneCache);
+  }
+  const hourIdx = Math.floor(ms / HOUR_MS);
+  const cached = zoneCache.get(hourIdx);
+  if (cached != null) return cached;
+
+  const probe = hourIdx * HOUR_MS;
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timeZone).formatToParts(new Date(probe))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  const wallAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = wallAsUtc - probe;
+  zoneCache.set(hourIdx, offset);
+  return offset;
+};
+
+export const getZonedParts = (date: Date, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): ZonedParts => {
+  const ms = date.getTime();
+  const shifted = new Date(ms + getTimeZoneOffsetMs(ms, timeZone));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay()
+  };
+};
+
+// "YYYY-MM" billing month key in the utility zone
+export const zonedMonthKey = (date: Date, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): string => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month + 1).padStart(2, '0')}`;
+};
+
+// "YYYY-MM-DD" calendar day key in the utility zone
+export const zonedDayKey = (date: Date, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): string => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month + 1).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+// Every instant whose wall clock in the zone reads `wall` — two during the fall-back hour,
+// none during the spring-forward hour. Sorted ascending.
+const wallTimeCandidates = (wall: WallTime, timeZone: string): number[] => {
+  const wallAsUtc = Date.UTC(wall.year, wall.monthIndex, wall.day, wall.hours, wall.minutes, wall.seconds);
+  const offsets = new Set([
+    getTimeZoneOffsetMs(wallAsUtc - 24 * HOUR_MS, timeZone),
+    getTimeZoneOffsetMs(wallAsUtc + 24 * HOUR_MS, timeZone)
+  ]);
+  return Array.from(offsets)
+    .map(o => wallAsUtc - o)
+    .filter(ms => getTimeZoneOffsetMs(ms, timeZone) === wallAsUtc - ms)
+    .sort((a, b) => a - b);
+};
+
+// Instant for a wall-clock time in the zone. Ambiguous fall-back times resolve to the first
+// occurrence unless `preferLater`; nonexistent spring-forward times shift forward by the gap.
+export const zonedTimeToDate = (
+  wall: WallTime,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  preferLater = false
+): Date => {
+  const candidates = wallTimeCandidates(wall, timeZone);
+  if (candidates.length > 0) {
+    return new Date(preferLater ? candidates[candidates.length - 1] : candidates[0]);
+  }
+  const wallAsUtc = Date.UTC(wall.year, wall.monthIndex, wall.day, wall.hours, wall.minutes, wall.seconds);
+  return new Date(wallAsUtc - getTimeZoneOffsetMs(wallAsUtc - 24 * HOUR_MS, timeZone));
+};
+
+// Midnight at the start of the zoned calendar day containing `date`
+export const startOfZonedDay = (date: Date, timeZone: string = DEFAULT_UTILITY_TIME_ZONE): Date => {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToDate({ year: p.year, monthIndex: p.month, day: p.day, hours: 0, minutes: 0, seconds: 0 }, timeZone);
+};
+
+// Converts a sequence of wall-clock times from an export (in chronological order) to instants.
+// A fall-back hour appears twice in utility exports (e.g. 1:00–1:59 AM PDT, then PST); the second
+// time an ambiguous wall time is seen it maps to the later instant so both hours are kept.
+export const createWallTimeResolver = (timeZone: string = DEFAULT_UTILITY_TIME_ZONE) => {
+  const seenAmbiguous = new Set<number>();
+  return (wall: WallTime): Date => {
+    const candidates = wallTimeCandidates(wall, timeZone);
+    if (candidates.length > 1) {
+      const key = candidates[0];
+      if (seenAmbiguous.has(key)) return new Date(candidates[candidates.length - 1]);
+      seenAmbiguous.add(key);
+    }
+    return zonedTimeToDate(wall, timeZone);
+  };
+};
@@ -0,0 +1,46 @@
+import { DayType, TariffPeriod, TouPeriodClass, TouWindow } from '../types';
+import { ZonedParts } from './timeZone';
+import { isTouHoliday } from './holidays';
+
+// TOU period lookup. Periods cover one or more minute-of-day windows (end exclusive, wrapping
+// past midnight when end <= start) and optionally only some day types; periods without `days`
+// apply every day. Legacy periods give an inclusive startHour–endHour range instead of windows.
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const getDayType = (parts: ZonedParts): DayType => {
+  if (isTouHoliday(parts.year, parts.month, parts.day)) return 'holiday';
+  return parts.weekday === 0 || parts.weekday === 6 ? 'weekend' : 'weekday';
+};
+
+// A period's windows, converting a legacy hour range (endHour inclusive) to minutes
+export const getPeriodWindows = (period: TariffPeriod): TouWindow[] => {
+  if (period.windows) return period.windows;
+  if (period.startHour == null || period.endHour == null) return [];
+  return [{ startMinute: period.startHour * 60, endMinute: ((period.endHour + 1) * 60) % MINUTES_PER_DAY }];
+};
+
+const inWindow = (window: TouWindow, minuteOfDay: number): boolean =>
+  window.startMinute < window.endMinute
+    ? minuteOfDay >= window.startMinute && minuteOfDay < window.endMinute
+    : minuteOfDay >= window.startMinute || minuteOfDay < window.endMinute;
+
+export const periodApplies = (period: TariffPeriod, minuteOfDay: number, dayType: DayType): boolean =>
+  (!period.days || period.days.includes(dayType)) && getPeriodWindows(period).some(w => inWindow(w, minuteOfDay));
+
+// First period covering the reading's wall-clock minute and day type. Readings are keyed by
+// interval start, so a 15-minute reading at 3:45 PM is priced in the window containing 3:45.
+export const findTariffPeriod = (periods: TariffPeriod[], parts: ZonedParts): TariffPeriod | undefined => {
+  const dayType = getDayType(parts);
+  return periods.find(p => periodApplies(p, parts.hour * 60 + parts.minute, dayType));
+};
+
+// Peak, partial-peak (PG&E) / mid-peak (SCE, SDG&E) or off-peak. Bundled tariffs set it; other
+// periods are classed by name, where "mid" alone is not enough ("Super Off-Peak (midnight-6 AM)").
+export const getPeriodClass = (period: TariffPeriod): TouPeriodClass => {
+  if (period.periodClass) return period.periodClass;
+  const name = period.name.toLowerCase();
+  if (/\bmid-peak\b|partial/.test(name)) return 'partial-peak';
+  if (/\bpeak\b/.test(name) && !/off-peak/.test(name)) return 'peak';
+  return 'off-peak';
+};
@@ -0,0 +1,124 @@
+import { DailyTemperature } from '../types';
+import { normalizeHeader, parseCsvRows, parseNumber, parseUsDate } from './csvUtils';
+
+// Daily temperature files for weather normalization. Two NOAA GHCN-Daily layouts are read:
+//   - Climate Data Online exports: a header row with DATE and TAVG and/or TMAX/TMIN columns, in
+//     °F ("standard" units) or °C ("metric"). A plain date + temperature CSV works the same way.
+//   - Per-station files from the GHCN-Daily archive: no header, one element per row
+//     (ID, YYYYMMDD, ELEMENT, VALUE, …) with values in tenths of °C.
+
+export type TemperatureUnit = 'F' | 'C';
+
+export interface WeatherCsvParseResult {
+  temperatures: DailyTemperature[];
+  stationName?: string;
+  warnings: string[];
+}
+
+interface DayValues {
+  tavg?: number;
+  tmax?: number;
+  tmin?: number;
+}
+
+const toF = (value: number, unit: TemperatureUnit): number => unit === 'C' ? value * 9 / 5 + 32 : value;
+
+const isoDate = (year: number, monthIndex: number, day: number): string =>
+  `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const GHCN_ELEMENTS = new Set(['TAVG', 'TMAX', 'TMIN']);
+
+const isGhcnArchiveRow = (row: string[]): boolean =>
+  row.length >= 4 && /^\d{8}$/.test(row[1].trim()) && /^[A-Z]{4}$/.test(row[2].trim());
+
+const parseGhcnArchive = (rows: string[][], days: Map<string, DayValues>): void => {
+  for (const row of rows) {
+    const element = row[2]?.trim();
+    if (!isGhcnArchiveRow(row) || !GHCN_ELEMENTS.has(element)) continue;
+    // Column 6 is the quality flag; flagged values failed a NOAA quality check
+    if ((row[5] ?? '').trim()) continue;
+    const value = parseNumber(row[3]);
+    if (value == null || value === -9999) continue;
+    const ymd = row[1].trim();
+    const date = `${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}`;
+    const entry = days.get(date) ?? {};
+    entry[element.toLowerCase() as keyof DayValues] = toF(value / 10, 'C');
+    days.set(date, entry);
+  }
+};
+
+const parseHeaderedCsv = (
+  rows: string[][],
+  unit: TemperatureUnit,
+  days: Map<string, DayValues>
+): { stationName?: string } => {
+  const headerIdx = rows.findIndex(r => r.map(normalizeHeader).includes('date'));
+  if (headerIdx < 0) {
+    throw new Error('No DATE column found. Export daily data with TAVG or TMAX/TMIN from NOAA Climate Data Online.');
+  }
+  const header = rows[headerIdx].map(normalizeHeader);
+  const dateIdx = header.indexOf('date');
+  const tavgIdx = header.findIndex(h => h === 'tavg' || (h !== 'tmax' && h !== 'tmin' && /temp|mean/.test(h)));
+  const tmaxIdx = header.indexOf('tmax');
+  const tminIdx = header.indexOf('tmin');
+  const nameIdx = header.indexOf('name');
+  if (tavgIdx < 0 && (tmaxIdx < 0 || tminIdx < 0)) {
+    throw new Error('No temperature columns found. The file needs TAVG, or both TMAX and TMIN.');
+  }
+
+  let stationName: string | undefined;
+  for (const row of rows.slice(headerIdx + 1)) {
+    const parts = parseUsDate(row[dateIdx] ?? '');
+    if (!parts) continue;
+    const date = isoDate(parts.year, parts.monthIndex, parts.day);
+    const read = (idx: number) => {
+      if (idx < 0) return undefined;
+      const value = parseNumber(row[idx]);
+      return value == null ? undefined : toF(value, unit);
+    };
+    days.set(date, { tavg: read(tavgIdx), tmax: read(tmaxIdx), tmin: read(tminIdx) });
+    if (!stationName && nameIdx >= 0 && row[nameIdx]?.trim()) stationName = row[nameIdx].trim();
+  }
+  return { stationName };
+};
+
+// Parse a daily temperature CSV into daily means (°F), sorted by date. `unit` is the file's unit
+// for headered exports; archive files are always tenths of °C.
+export const parseWeatherCsv = (csvText: string, unit: TemperatureUnit = 'F'): WeatherCsvParseResult => {
+  const rows = parseCsvRows(csvText);
+  if (rows.length === 0) throw new Error('The weather file is empty.');
+
+  const days = new Map<string, DayValues>();
+  const warnings: string[] = [];
+  let stationName: string | undefined;
+
+  if (isGhcnArchiveRow(rows[0])) {
+    parseGhcnArchive(rows, days);
+    stationName = rows[0][0].trim();
+  } else {
+    stationName = parseHeaderedCsv(rows, unit, days).stationName;
+  }
+
+  const temperatures: DailyTemperature[] = [];
+  let missing = 0;
+  for (const [date, v] of days) {
+    const meanF = v.tavg ?? (v.tmax != null && v.tmin != null ? (v.tmax + v.tmin) / 2 : undefined);
+    if (meanF == null) {
+      missing++;
+      continue;
+    }
+    temperatures.push({ date, meanF });
+  }
+  temperatures.sort((a, b) => a.date.localeCompare(b.date));
+
+  if (temperatures.length === 0) throw new Error('No daily temperatures found in the weather file.');
+  if (missing > 0) warnings.push(`${missing} day${missing === 1 ? '' : 's'} without a mean or max/min temperature skipped.`);
+
+  // A °C file read as °F has a mean near freezing even in a mild climate
+  const average = temperatures.reduce((sum, t) => sum + t.meanF, 0) / temperatures.length;
+  if (unit === 'F' && average < 35) {
+    warnings.push(`Average temperature is ${average.toFixed(0)}°F — if this is a metric (°C) export, load it as °C.`);
+  }
+
+  return { temperatures, stationName, warnings };
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDegreeDays, fitGasWeatherModel } from './weatherNormalization';
+import { dailyTemperatures, GAS_BASELOAD_THERMS, GAS_THERMS_PER_HDD, weatherDrivenGasReadings } from './testFixtures';
+
+describe('fitGasWeatherModel', () => {
+  it('recovers the baseload and heating slope of a known weather response', () => {
+    const model = fitGasWeatherModel(weatherDrivenGasReadings, calculateDegreeDays(dailyTemperatures));
+
+    expect(model).not.toBeNull();
+    expect(model!.baseLoadPerDay).toBeCloseTo(GAS_BASELOAD_THERMS);
+    expect(model!.heatingSlope).toBeCloseTo(GAS_THERMS_PER_HDD);
+    expect(model!.coolingSlope).toBe(0);
+    expect(model!.rSquared).toBeCloseTo(1);
+    // One year of temperatures is its own normal
+    expect(Object.values(model!.monthFactors).every(f => Math.abs(f - 1) < 1e-9)).toBe(true);
+  });
+});
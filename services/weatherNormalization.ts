@@ -0,0 +1,252 @@
+import { DailyTemperature, DegreeDays, EnergyReading, GasReading, WeatherModel } from '../types';
+import { DEFAULT_UTILITY_TIME_ZONE, zonedDayKey } from './timeZone';
+import { getExportKwh, getImportKwh } from './readingChannels';
+
+// Weather normalization. Monthly usage per day is regressed on heating and cooling degree days per
+// day (a PRISM-style fit), which separates weather from behavior: the base load is what the home
+// uses regardless of weather, and the slopes are how much more it uses per degree day. Replaying
+// the fit against normal weather — the average degree days for each calendar month across the
+// temperature file — gives what each month would have used in a typical year.
+//
+// Normals come from the uploaded temperature file, so load several years of station data; with a
+// single year the "normal" year is that year and nothing changes.
+
+export const DEFAULT_BALANCE_POINT_F = 65;
+
+// Fewer covered days than this and a month is left out of the fit
+const MIN_DAYS_PER_MONTH = 10;
+const MIN_MONTHS = 3;
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+interface MonthObservation {
+  key: string;  // YYYY-MM
+  days: number; // days with both usage and temperature
+  usage: number;
+  hdd: number;
+  cdd: number;
+}
+
+interface DegreeDayNormal {
+  hddPerDay: number;
+  cddPerDay: number;
+}
+
+export const calculateDegreeDays = (
+  temperatures: DailyTemperature[],
+  balancePointF: number = DEFAULT_BALANCE_POINT_F
+): DegreeDays[] =>
+  temperatures.map(t => ({
+    date: t.date,
+    hdd: Math.max(0, balancePointF - t.meanF),
+    cdd: Math.max(0, t.meanF - balancePointF)
+  }));
+
+// Average degree days per day for each calendar month (0-11) over every year in the data
+const buildNormals = (degreeDays: DegreeDays[]): Map<number, DegreeDayNormal> => {
+  const sums = new Map<number, { hdd: number; cdd: number; days: number }>();
+  for (const d of degreeDays) {
+    const month = Number(d.date.slice(5, 7)) - 1;
+    const sum = sums.get(month) ?? { hdd: 0, cdd: 0, days: 0 };
+    sum.hdd += d.hdd;
+    sum.cdd += d.cdd;
+    sum.days++;
+    sums.set(month, sum);
+  }
+  const normals = new Map<number, DegreeDayNormal>();
+  for (const [month, sum] of sums) normals.set(month, { hddPerDay: sum.hdd / sum.days, cddPerDay: sum.cdd / sum.days });
+  return normals;
+};
+
+// Usage per utility-local day, joined to that day's degree days and totalled by month
+const observeMonths = (
+  dailyUsage: Map<string, number>,
+  degreeDays: DegreeDays[]
+): MonthObservation[] => {
+  const byMonth = new Map<string, MonthObservation>();
+  for (const d of degreeDays) {
+    const usage = dailyUsage.get(d.date);
+    if (usage == null) continue;
+    const key = d.date.slice(0, 7);
+    const obs = byMonth.get(key) ?? { key, days: 0, usage: 0, hdd: 0, cdd: 0 };
+    obs.days++;
+    obs.usage += usage;
+    obs.hdd += d.hdd;
+    obs.cdd += d.cdd;
+    byMonth.set(key, obs);
+  }
+  return Array.from(byMonth.values())
+    .filter(o => o.days >= MIN_DAYS_PER_MONTH)
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Solve the normal equations A·x = b by Gaussian elimination; null when singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+// Day-weighted least squares of usage/day on the given degree-day terms (plus an intercept)
+const fitTerms = (
+  observations: MonthObservation[],
+  terms: Array<'hdd' | 'cdd'>
+): { coefficients: number[]; rSquared: number } | null => {
+  const features = (o: MonthObservation) => [1, ...terms.map(t => o[t] / o.days)];
+  const k = terms.length + 1;
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  for (const o of observations) {
+    const x = features(o);
+    const y = o.usage / o.days;
+    for (let i = 0; i < k; i++) {
+      xty[i] += o.days * x[i] * y;
+      for (let j = 0; j < k; j++) xtx[i][j] += o.days * x[i] * x[j];
+    }
+  }
+  const coefficients = solve(xtx, xty);
+  if (!coefficients) return null;
+
+  const totalDays = observations.reduce((s, o) => s + o.days, 0);
+  const mean = observations.reduce((s, o) => s + o.usage, 0) / totalDays;
+  let ssRes = 0;
+  let ssTot = 0;
+  for (const o of observations) {
+    const x = features(o);
+    const y = o.usage / o.days;
+    const predicted = x.reduce((s, xi, i) => s + xi * coefficients[i], 0);
+    ssRes += o.days * (y - predicted) ** 2;
+    ssTot += o.days * (y - mean) ** 2;
+  }
+  return { coefficients, rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 0 };
+};
+
+const fitWeatherModel = (
+  dailyUsage: Map<string, number>,
+  degreeDays: DegreeDays[],
+  balancePointF: number,
+  cooling: boolean
+): WeatherModel | null => {
+  const observations = observeMonths(dailyUsage, degreeDays);
+  if (observations.length < MIN_MONTHS) return null;
+
+  // Only terms the weather actually exercised (a mild summer may have no cooling degree days).
+  // Drop any term whose slope comes out negative (usage falling as it gets colder/hotter is
+  // noise, not physics), or that can't be separated from the others, and refit without it.
+  let terms = (cooling ? ['hdd', 'cdd'] as const : ['hdd'] as const).filter(t => observations.some(o => o[t] > 0));
+  let fit = fitTerms(observations, terms);
+  while (terms.length > 0) {
+    const drop = fit ? terms.findIndex((_, i) => fit!.coefficients[i + 1] < 0) : terms.length - 1;
+    if (drop < 0) break;
+    terms = terms.filter((_, i) => i !== drop);
+    fit = fitTerms(observations, terms);
+  }
+  if (!fit) return null;
+
+  const coefficient = (term: 'hdd' | 'cdd') => terms.includes(term) ? fit!.coefficients[terms.indexOf(term) + 1] : 0;
+  const baseLoadPerDay = fit.coefficients[0];
+  const heatingSlope = coefficient('hdd');
+  const coolingSlope = coefficient('cdd');
+  const predictPerDay = (hddPerDay: number, cddPerDay: number) =>
+    baseLoadPerDay + heatingSlope * hddPerDay + coolingSlope * cddPerDay;
+
+  const normals = buildNormals(degreeDays);
+
+  // Shift each month by the modeled difference between normal and actual weather
+  const monthFactors: Record<string, number> = {};
+  for (const o of observations) {
+    const normal = normals.get(Number(o.key.slice(5, 7)) - 1)!;
+    const delta = (predictPerDay(normal.hddPerDay, normal.cddPerDay) - predictPerDay(o.hdd / o.days, o.cdd / o.days)) * o.days;
+    monthFactors[o.key] = o.usage > 0 ? Math.max(0, (o.usage + delta) / o.usage) : 1;
+  }
+
+  const totalDays = observations.reduce((s, o) => s + o.days, 0);
+  const observedAnnual = observations.reduce((s, o) => s + o.usage, 0) / totalDays * 365;
+  const normalizedAnnual = normals.size === 12
+    ? DAYS_IN_MONTH.reduce((sum, days, m) => {
+      const normal = normals.get(m)!;
+      return sum + Math.max(0, predictPerDay(normal.hddPerDay, normal.cddPerDay)) * days;
+    }, 0)
+    : null;
+
+  return {
+    baseLoadPerDay,
+    heatingSlope,
+    coolingSlope,
+    balancePointF,
+    rSquared: fit.rSquared,
+    months: observations.length,
+    observedAnnual,
+    normalizedAnnual,
+    monthFactors
+  };
+};
+
+const sumByDay = <T extends { timestamp: Date }>(
+  readings: T[],
+  usage: (r: T) => number,
+  timeZone: string
+): Map<string, number> => {
+  const daily = new Map<string, number>();
+  for (const r of readings) {
+    const day = zonedDayKey(r.timestamp, timeZone);
+    daily.set(day, (daily.get(day) ?? 0) + usage(r));
+  }
+  return daily;
+};
+
+// Gas: therms against heating degree days only
+export const fitGasWeatherModel = (
+  readings: GasReading[],
+  degreeDays: DegreeDays[],
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  balancePointF: number = DEFAULT_BALANCE_POINT_F
+): WeatherModel | null =>
+  fitWeatherModel(sumByDay(readings, r => r.value, timeZone), degreeDays, balancePointF, false);
+
+// Electric: imported kWh (what the home draws, regardless of solar) against heating and cooling degree days
+export const fitElectricWeatherModel = (
+  readings: EnergyReading[],
+  degreeDays: DegreeDays[],
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE,
+  balancePointF: number = DEFAULT_BALANCE_POINT_F
+): WeatherModel | null =>
+  fitWeatherModel(sumByDay(readings, getImportKwh, timeZone), degreeDays, balancePointF, true);
+
+const monthFactor = (model: WeatherModel, timestamp: Date, timeZone: string): number =>
+  model.monthFactors[zonedDayKey(timestamp, timeZone).slice(0, 7)] ?? 1;
+
+// Gas readings as they would have been in normal weather; months outside the fit are unchanged
+export const normalizeGasReadings = (
+  readings: GasReading[],
+  model: WeatherModel,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): GasReading[] =>
+  readings.map(r => ({ ...r, value: r.value * monthFactor(model, r.timestamp, timeZone) }));
+
+// Electric readings in normal weather. Only consumption scales: imports are adjusted and solar
+// export is left as measured.
+export const normalizeEnergyReadings = (
+  readings: EnergyReading[],
+  model: WeatherModel,
+  timeZone: string = DEFAULT_UTILITY_TIME_ZONE
+): EnergyReading[] =>
+  readings.map(r => {
+    const factor = monthFactor(model, r.timestamp, timeZone);
+    if (factor === 1) return r;
+    if (r.importKwh == null && r.exportKwh == null) return r.value > 0 ? { ...r, value: r.value * factor } : r;
+    const importKwh = getImportKwh(r) * factor;
+    const exportKwh = getExportKwh(r);
+    return { ...r, value: importKwh - exportKwh, importKwh, exportKwh };
+  });
@@ -1,25 +1,76 @@
 
 export interface EnergyReading {
   timestamp: Date;
-  value: number; // in kWh
+  value: number; // net kWh (importKwh − exportKwh when channels are present)
+  importKwh?: number; // delivered from the grid; absent for net-only files
+  exportKwh?: number; // received from the customer (solar export); absent for net-only files
+  estimated?: boolean; // imputed to fill a gap or outage, not measured by the meter
+}
+
+// Day types a TOU period can be limited to; holidays come from services/holidays
+export type DayType = 'weekday' | 'weekend' | 'holiday';
+
+// How a TOU period is shown: chart colour and legend group
+export type TouPeriodClass = 'peak' | 'partial-peak' | 'off-peak';
+
+// Minute-of-day range, e.g. 4:30–9 PM is { startMinute: 990, endMinute: 1260 }. The end is
+// exclusive; a window wraps past midnight when endMinute <= startMinute.
+export interface TouWindow {
+  startMinute: number; // 0-1439
+  endMinute: number;   // 0-1440
 }
 
 export interface TariffPeriod {
   name: string;
-  startHour: number; // 0-23
-  endHour: number;   // 0-23
+  startHour?: number;    // 0-23, legacy whole-hour range; ignored when `windows` is set
+  endHour?: number;      // 0-23, inclusive
+  windows?: TouWindow[]; // one or more minute-precision windows
+  days?: DayType[];  // day types this period applies to; all days when omitted
+  periodClass?: TouPeriodClass; // inferred from the name when omitted
   rate: number;      // price per kWh (winter / default)
-  summerRate?: number; // price per kWh in summer (Jun-Sep), if different
+  summerRate?: number; // price per kWh in the tariff's "summer" season, if different
+  seasonRates?: Record<string, number>; // price per kWh by season name, for other seasons
+  tiers?: RateTier[];          // tiered tariffs: usage tiers; defaults to two tiers split at 100% of baseline
   deliveryRate?: number;       // delivery-only portion (winter), for NEM True-Up split
   deliverySummerRate?: number; // delivery-only portion (summer)
+  seasonDeliveryRates?: Record<string, number>; // delivery-only portion by season name
+}
+
+// One step of a tier schedule, covering usage from the previous tier's threshold up to its own.
+// Priced at an explicit $/kWh (with its own seasonal rates) or as a multiple of the period's rate.
+export interface RateTier {
+  name: string;
+  threshold?: number;                     // upper bound of the tier; open-ended (last tier) when omitted
+  thresholdUnit?: 'baselinePercent' | 'kwh'; // defaults to percent of the period's baseline allowance
+  rate?: number;                          // $/kWh (winter / default)
+  summerRate?: number;
+  seasonRates?: Record<string, number>;
+  multiplier?: number;                    // × the period's seasonal rate, when no explicit rate; defaults to 1
+}
+
+// A season runs from its start date until the next season's start, every year
+export interface TariffSeason {
+  name: string;  // "summer" picks up summerRate and the summer baseline allowance
+  start: string; // "MM-DD", first day of the season
 }
 
 export type ProviderType = 'pge-bundled' | 'mce-pge' | 'sce-bundled' | 'sdge-bundled';
 
+// Income-graduated fixed charge tiers; CARE/FERA enrollment determines the tier
+export type IncomeTier = 'standard' | 'fera' | 'care';
+
+export interface IncomeTierCharges {
+  fixedMonthlyCharge: number;
+  volumetricAdjustment?: number; // $/kWh added to every energy rate; negative = reduction
+}
+
 export interface RateVersion {
   effectiveBefore: string; // ISO date, e.g. "2026-03-01" — rates apply to readings BEFORE this date
   periods: TariffPeriod[];
   fixedMonthlyCharge: number;
+  incomeTierCharges?: Partial<Record<IncomeTier, IncomeTierCharges>>;
+  pciaRate?: number;                       // CCA tariffs: the PCIA in effect before the cutoff, if it differs
+  pciaByVintage?: Record<string, number>;
 }
 
 export interface Tariff {
@@ -28,32 +79,158 @@ export interface Tariff {
   description: string;
   type: 'flat' | 'tou' | 'tiered';
   periods: TariffPeriod[];
-  fixedMonthlyCharge: number;
+  fixedMonthlyCharge: number;  // standard (non-CARE/FERA) charge
+  incomeTierCharges?: Partial<Record<IncomeTier, IncomeTierCharges>>; // tiers without an entry pay fixedMonthlyCharge
   provider?: ProviderType;
-  tier2Multiplier?: number;  // for tiered rates; defaults to 1.24
+  tier2Multiplier?: number;  // tiered rates without a tier schedule: tier 2 multiple of the base rate; defaults to 1.24
   pciaRate?: number;         // $/kWh Power Cost Indifference Adjustment (MCE/CCA customers, charged by PG&E on grid consumption)
+  pciaByVintage?: Record<string, number>; // PCIA $/kWh by vintage (enrollment) year; pciaRate is the default vintage's
   monthlyCredit?: number;    // flat monthly bill credit, e.g. MCE Storage Credit (~-$12 if enrolled); negative reduces statement
   rateHistory?: RateVersion[]; // older rate versions, ordered by effectiveBefore ascending
+  seasons?: TariffSeason[];    // defaults to summer Jun 1–Sep 30, winter Oct 1–May 31
+}
+
+// ============ CCA Composition Types ============
+// A CCA tariff is the utility's delivery schedule (TOU periods, delivery rates, fixed charges) plus
+// the CCA's generation rates for the matching periods; see services/tariffComposition.
+
+export interface GenerationRate {
+  rate: number;        // $/kWh generation (winter / default)
+  summerRate?: number;
+  seasonRates?: Record<string, number>;
+}
+
+// Older generation rates, like RateVersion: they apply to readings BEFORE effectiveBefore
+export interface GenerationVersion {
+  effectiveBefore: string;
+  generation: Record<string, GenerationRate>;
+}
+
+// One CCA generation schedule, paired with the utility rate plan it rides on
+export interface CcaPlan {
+  id: string;
+  name: string;
+  description: string;
+  deliveryTariffId: string; // utility tariff supplying delivery rates, periods and fixed charges
+  generation: Record<string, GenerationRate>; // current rates, by delivery period name
+  generationHistory?: GenerationVersion[];    // ordered by effectiveBefore ascending
+}
+
+export interface CcaProgram {
+  name: string;
+  provider: ProviderType;
+  premium?: number;                    // $/kWh added to all generation, e.g. a 100% renewable option
+  generationAdjustments?: Record<string, number>; // signed $/kWh on one period's generation, by delivery period name (CCA credits < 0)
+  pciaByVintage: Record<string, number>;
+  defaultVintage: string;
+  plans: CcaPlan[];
+}
+
+// ============ Baseline Types ============
+
+export type BaselineUtility = 'pge' | 'sce' | 'sdge';
+
+export interface BaselineAllowance {
+  summer: number; // kWh/day
+  winter: number; // kWh/day
+}
+
+export interface BaselineTerritory {
+  basic: BaselineAllowance;       // gas heat / basic electric service
+  allElectric: BaselineAllowance; // permanently installed electric space heating
+}
+
+export interface BaselineTable {
+  name: string;
+  defaultTerritory: string;
+  medicalKwhPerDay: number; // extra daily allowance for Medical Baseline customers
+  territories: Record<string, BaselineTerritory>;
+}
+
+// Customer-level settings that change how a tariff bills (independent of the tariff itself)
+export interface CustomerProfile {
+  baselineTerritory?: string; // e.g. "X" (PG&E), "10" (SCE), "coastal" (SDG&E)
+  allElectric?: boolean;
+  incomeTier?: IncomeTier;   // defaults to standard
+  medicalBaseline?: boolean; // enrolled in the Medical Baseline program
+  pciaVintage?: string;      // CCA customers: PCIA vintage year from the bill; the tariff's default otherwise
+  gasClimateZone?: string;   // gas baseline zone where it differs from the electric territory, e.g. SoCalGas "2"
+}
+
+// Share of a billing period priced under one rate version (see Tariff.rateHistory)
+export interface RateVersionShare {
+  effectiveBefore: string | null; // the version's cutoff; null = current rates
+  days: number;  // days of the period under this version (fixed charge proration)
+  usage: number; // kWh priced at this version's rates
+}
+
+// kWh and energy charges (before discounts) billed in one TOU period or tier
+export interface UsageSubtotal {
+  name: string;
+  kwh: number;
+  cost: number;
+}
+
+// What a bill's cost is made of: energy + fixed + credits (+ pcia) = cost. Delivery and generation split the
+// energy-side charges (energy + credits) and are only present for tariffs with delivery rates.
+export interface CostComponents {
+  energy: number;      // charges on consumed kWh
+  fixed: number;
+  credits: number;     // ≤ 0: net-export kWh credited at retail, CARE/FERA discount
+  delivery?: number;
+  generation?: number;
+  pcia?: number;       // CCA tariffs: PCIA on imported kWh, at the customer's vintage, after CARE/FERA
 }
 
 export interface MonthlyBreakdown {
-  monthName: string;
+  monthName: string; // period key: YYYY-MM calendar month, or the read date YYYY-MM-DD of a billing cycle
+  month: string;     // YYYY-MM calendar or statement month
   usage: number;
   cost: number;
+  fixedCharge?: number; // fixed monthly charge included in cost
+  discount?: number; // CARE/FERA discount already taken off cost
+  estimatedUsage?: number; // portion of usage from imputed intervals
+  baselineKwh?: number; // tier 1 allowance for the period (tiered rates)
+  tierUsage?: UsageSubtotal[]; // kWh and charges in each tier (tiered rates)
+  touUsage?: UsageSubtotal[];  // kWh and charges in each TOU period (TOU rates)
+  components?: CostComponents;
+  importKwh?: number; // gross kWh delivered from the grid this month
+  exportKwh?: number; // gross kWh exported to the grid this month
+  periodStart?: string; // YYYY-MM-DD first day billed
+  periodEnd?: string; // YYYY-MM-DD meter read date
+  days?: number; // days in the billing period
+  rateVersions?: RateVersionShare[]; // versions in effect during the period, oldest first
+}
+
+// A tariff's current $/kWh for one TOU period or tier, as billed to the customer
+export interface VolumetricRate {
+  name: string;
+  rate: number;
+  summerRate: number;
 }
 
 export interface ComparisonResult {
   tariffId: string;
   tariffName: string;
+  fixedMonthlyCharge: number; // current fixed charge for the customer's income tier
+  volumetricRates: VolumetricRate[];
+  subtotals: UsageSubtotal[];  // energy charges per TOU period or tier, over all readings (PCIA is in components)
+  components: CostComponents;  // over all readings
   totalUsage: number;
   totalCost: number;
   estimatedMonthlyCost: number;
   savingsVsCurrent: number;
+  estimatedUsage: number; // kWh from imputed intervals
+  totalImportKwh: number;
+  totalExportKwh: number;
   breakdown: MonthlyBreakdown[];
 }
 
 export type TimePeriod = 'day' | 'week' | 'month' | 'year';
 
+// Gas end uses a simulated electric appliance can take over
+export type GasEndUse = 'spaceHeating' | 'waterHeating' | 'cooking';
+
 export interface SimulatedLoad {
   id: string;
   name: string;
@@ -68,6 +245,7 @@ export interface SimulatedLoad {
   // If this load replaces a gas appliance
   replacesGasTherms?: number;
   replacesGasAppliance?: string;
+  gasEndUse?: GasEndUse; // with gas data, sized from the household's actual gas use instead of monthlyKwh
 }
 
 export interface LoadPreset {
@@ -81,6 +259,7 @@ export interface LoadPreset {
   // If this load replaces a gas appliance, how many therms/month it offsets
   replacesGasTherms?: number;
   replacesGasAppliance?: string; // e.g., "gas furnace", "gas water heater", "gas stove"
+  gasEndUse?: GasEndUse;
 }
 
 // ============ Gas Types ============
@@ -90,6 +269,19 @@ export interface GasReading {
   value: number; // in therms
 }
 
+export type GasBaselineUtility = 'pge' | 'socalgas';
+
+// Daily therm allowances by territory and baseline season. Gas baseline seasons are their own
+// schedule (e.g. PG&E winter on-peak Dec–Jan), independent of any electric tariff's seasons.
+export interface GasBaselineTable {
+  name: string;
+  defaultTerritory: string;
+  sharesElectricTerritories: boolean; // territories are the electric baseline territories (PG&E)
+  medicalThermsPerDay: number;        // extra daily allowance for Medical Baseline customers
+  seasons: TariffSeason[];
+  territories: Record<string, Record<string, number>>; // therms/day by season name
+}
+
 export interface GasTariff {
   id: string;
   name: string;
@@ -97,8 +289,18 @@ export interface GasTariff {
   // PG&E gas is tiered based on baseline allocation
   baselineRate: number;      // $/therm for baseline usage
   overBaselineRate: number;  // $/therm for usage above baseline
-  baselineTherms: number;    // Monthly baseline allocation (varies by climate zone, ~25-50 therms)
+  baselineUtility: GasBaselineUtility; // baseline schedule; allowance is prorated by billing-period days
   fixedMonthlyCharge: number;
+  rateHistory?: GasMonthlyRate[]; // month-by-month rates, ascending; months without one use the rates above
+}
+
+// One month's gas rates. A tier's $/therm is procurement plus that tier's transportation charge
+// (public purpose program surcharge included); procurement is reset monthly, transportation less often.
+export interface GasMonthlyRate {
+  month: string; // YYYY-MM
+  procurement: number;
+  baselineTransportation: number;
+  overBaselineTransportation: number;
 }
 
 export interface GasComparisonResult {
@@ -109,3 +311,30 @@ export interface GasComparisonResult {
   estimatedMonthlyCost: number;
   breakdown: MonthlyBreakdown[];
 }
+
+// ============ Weather Types ============
+
+export interface DailyTemperature {
+  date: string;  // YYYY-MM-DD, station local
+  meanF: number; // daily mean (TAVG, or the TMAX/TMIN midpoint)
+}
+
+export interface DegreeDays {
+  date: string; // YYYY-MM-DD
+  hdd: number;  // heating degree days below the balance point
+  cdd: number;  // cooling degree days above the balance point
+}
+
+// Usage-vs-degree-day fit over monthly totals: usage/day = base + heating × HDD/day + cooling × CDD/day.
+// Usage is therms for gas, imported kWh for electric.
+export interface WeatherModel {
+  baseLoadPerDay: number;
+  heatingSlope: number; // per HDD; 0 when usage doesn't rise with cold
+  coolingSlope: number; // per CDD; 0 when usage doesn't rise with heat (and always for gas)
+  balancePointF: number;
+  rSquared: number;
+  months: number;           // monthly observations in the fit
+  observedAnnual: number;   // observed usage per day × 365
+  normalizedAnnual: number | null; // in a normal-weather year; null without normals for all 12 months
+  monthFactors: Record<string, number>; // YYYY-MM → normal-weather ÷ actual usage
+}